@@ -0,0 +1,103 @@
+import type { EventRef, WorkspaceLeaf } from 'obsidian'
+
+/**
+ * Public API of the Scroll Control plugin, for other plugins to drive and
+ * extend the floating buttons. Copy this file into your plugin and read the
+ * API from the plugin instance:
+ *
+ * ```ts
+ * const api = (this.app as any).plugins.plugins['scroll-control']?.api as
+ *   | ScrollControlApi
+ *   | undefined
+ * ```
+ *
+ * The API is only available while Scroll Control is enabled, so look it up
+ * when you need it rather than keeping a reference.
+ */
+export interface ScrollControlApi {
+  /** Version of this API, raised when it changes incompatibly. */
+  readonly version: number
+
+  /**
+   * Scrolls a leaf to a target, the same way the floating buttons do.
+   * The jump can be undone with Jump Back and is added to the scroll history.
+   * @param leaf The workspace leaf to scroll.
+   * @param target Where the scroll should land.
+   * @returns False if the leaf has no scroll buttons (e.g. its view type
+   *   isn't enabled), in which case nothing happens.
+   */
+  scrollTo(leaf: WorkspaceLeaf, target: ScrollTarget): boolean
+
+  /**
+   * Returns the element holding a leaf's floating buttons.
+   * @param leaf The workspace leaf.
+   * @returns The container, or null if the leaf has no scroll buttons.
+   */
+  getButtonContainer(leaf: WorkspaceLeaf): HTMLElement | null
+
+  /**
+   * Adds a button to the floating buttons of every leaf, after the buttons
+   * the user configured. Registering a button with an ID that is already
+   * registered replaces it.
+   * @param button The button to add.
+   * @returns A function that removes the button again; call it when your
+   *   plugin unloads.
+   */
+  registerButton(button: ScrollControlButton): () => void
+
+  /**
+   * Subscribes to scrolls made by the buttons, commands and this API.
+   * Pass the returned reference to your plugin's `registerEvent` so it is
+   * removed when your plugin unloads.
+   * @param name The event name.
+   * @param callback Called with the leaf and target after each scroll.
+   * @returns A reference for unsubscribing.
+   */
+  on(
+    name: 'scrolled-to',
+    callback: (leaf: WorkspaceLeaf, target: ScrollTarget) => void,
+  ): EventRef
+
+  /**
+   * Unsubscribes an event callback.
+   * @param ref The reference returned by `on`.
+   */
+  offref(ref: EventRef): void
+}
+
+/**
+ * A floating button added by another plugin.
+ */
+export interface ScrollControlButton {
+  /** Unique ID, ideally prefixed with your plugin's ID. */
+  id: string
+  /** Lucide icon name or SVG markup. */
+  icon: string
+  /** Tooltip and accessible label. */
+  tooltip: string
+  /**
+   * Called when the button is clicked.
+   * @param leaf The workspace leaf the clicked button belongs to.
+   */
+  onClick(leaf: WorkspaceLeaf): void
+  /**
+   * Decides whether the button is shown in a leaf. Shown everywhere if
+   * omitted. Checked whenever the buttons are rebuilt, e.g. when the leaf
+   * opens another file.
+   * @param leaf The workspace leaf.
+   */
+  isVisible?(leaf: WorkspaceLeaf): boolean
+}
+
+/**
+ * Describes where a scroll should land.
+ */
+export type ScrollTarget =
+  | { type: 'top' }
+  | { type: 'bottom' }
+  /** One viewport height up or down. */
+  | { type: 'page'; direction: 'up' | 'down' }
+  /** A fraction of the scrollable height, from 0 to 100. */
+  | { type: 'percent'; percent: number }
+  /** A zero-based source line (Markdown only). */
+  | { type: 'line'; line: number }
@@ -1,508 +1,5350 @@
 import {
   App,
   debounce,
+  Editor,
+  EditorPosition,
+  Events,
+  FileView,
+  getAllTags,
+  ItemView,
   MarkdownView,
+  Modal,
+  Notice,
+  ObsidianProtocolData,
+  Platform,
   Plugin,
   PluginManifest,
   PluginSettingTab,
+  setIcon,
   Setting,
+  TAbstractFile,
+  TFile,
+  View,
   WorkspaceLeaf,
 } from 'obsidian'
+import type { EditorView } from '@codemirror/view'
+import type { ScrollControlApi, ScrollControlButton, ScrollTarget } from './api'
 
 /**
  * Defines the settings available for the Scroll Control plugin.
  */
 interface ScrollControlSettings {
-  /** Whether to show the Scroll to Top button. */
-  showScrollTopButton: boolean
-  /** Whether to show the Scroll to Bottom button. */
-  showScrollBottomButton: boolean
+  /** The floating buttons, in display order. */
+  buttons: ButtonConfig[]
   /** Size preset for the floating buttons. */
   buttonSize: 'small' | 'medium' | 'large'
-  /** Custom background color for buttons (hex format). */
+  /** Custom background color for buttons: any CSS color, including theme variables. */
   buttonColor: string
+  /** Custom background color in dark mode, or '' to use buttonColor. */
+  buttonColorDark: string
   /** Whether to use the custom background color. */
   useCustomColor: boolean
+  /** Icon color, or '' to pick black or white for the best contrast. */
+  iconColor: string
+  /** Opacity of the buttons while not hovered, in percent. */
+  buttonOpacity: number
   /** Duration of button animations in milliseconds. */
   animationSpeed: number
-  /** Whether to enable button hover/click animations. */
+  /** Whether to enable button hover/click animations and animated scrolling. */
   useAnimations: boolean
-  /** If true, Scroll Bottom button appears above Scroll Top button. */
+  /** Easing curve of animated scrolls. */
+  scrollEasing: ScrollEasing
+  /** Turn animations off when the system asks for reduced motion. */
+  respectReducedMotion: boolean
+  /** If true, the button stack is displayed in reverse order. */
   invertButtonOrder: boolean
-  /** Vertical distance between buttons in pixels. */
+  /** Distance between buttons in pixels. */
   buttonSpacing: number
-  /** Distance from the right edge of the pane in pixels. */
+  /** Distance from the anchored left/right edge in pixels. */
   horizontalPadding: number
-  /** Distance from the bottom edge of the pane in pixels. */
+  /** Distance from the anchored top/bottom edge in pixels. */
   verticalPadding: number
+  /** Corner or edge midpoint of the pane the buttons are placed at. */
+  anchor: ButtonAnchor
+  /** Whether the buttons are stacked in a column or laid out in a row. */
+  orientation: 'vertical' | 'horizontal'
+  /** Measure the horizontal padding from the text column instead of the pane edge. */
+  pinToTextColumn: boolean
+  /** Whether the buttons can be dragged to a new position within the pane. */
+  draggableButtons: boolean
+  /** Remember a separate dragged position for each note instead of one for all. */
+  rememberDragPositionPerNote: boolean
+  /** Where the buttons were dragged to, used when not remembered per note. */
+  buttonPosition: ButtonPosition | null
+  /** How linked panes are matched up when scrolling in sync. */
+  syncScrollMode: 'percent' | 'heading' | 'line'
+  /** Also scroll panes in sync that Obsidian has linked together (linked tabs). */
+  syncLinkedTabs: boolean
+  /** Auto-scroll speed, in the unit chosen by autoScrollUnit per second. */
+  autoScrollSpeed: number
+  /** Whether the auto-scroll speed is measured in pixels or lines. */
+  autoScrollUnit: 'pixels' | 'lines'
+  /** Whether to restore each note's last scroll position when it is reopened. */
+  rememberScrollPosition: boolean
+  /** Maximum number of notes whose scroll position is remembered. */
+  maxRememberedPositions: number
+  /** How reading progress is drawn on the button container. */
+  progressIndicator: 'none' | 'ring' | 'bar'
+  /** Show a rail along the pane edge with an overview of the note's structure. */
+  showOverviewRail: boolean
+  /** Whether to apply mobileOverrides on phones and tablets. */
+  useMobileLayout: boolean
+  /** Settings that replace the desktop ones on phones and tablets. */
+  mobileOverrides: ProfileOverrides
+  /** Whether holding a button down runs its long-press action. */
+  longPressActions: boolean
+  /** Whether swiping along the pane edge jumps to the top or bottom. */
+  edgeSwipeGestures: boolean
+  /** Hide Scroll to Top while at the top and Scroll to Bottom while at the bottom. */
+  hideButtonsAtEdges: boolean
+  /** Where the last line lands when scrolling to the bottom of a Markdown note. */
+  endOfDocumentAlignment: EndAlignment
+  /** Whether jumps in editing mode move the cursor along or keep the selection. */
+  cursorBehavior: CursorBehavior
+  /** Whether to fade the buttons out after a period without scrolling. */
+  autoHideWhenIdle: boolean
+  /** Seconds without scrolling before the buttons fade out. */
+  autoHideDelay: number
+  /** Whether moving the mouse near the buttons brings them back. */
+  revealOnMouseNear: boolean
+  /** View types (as returned by View.getViewType()) that get scroll buttons. */
+  enabledViewTypes: string[]
+  /** Profiles that override these settings for matching notes, applied in order. */
+  profiles: SettingsProfile[]
+}
+
+/**
+ * Easing curve of animated scrolls.
+ */
+type ScrollEasing = 'linear' | 'ease-in-out' | 'cubic' | 'spring'
+
+/**
+ * Duration and easing of an animated scroll.
+ */
+interface ScrollAnimation {
+  /** Duration of a one-page scroll in milliseconds; see getScrollDuration. */
+  duration: number
+  /** Easing curve. */
+  easing: ScrollEasing
+}
+
+/**
+ * Where the end of a document lands when scrolling to the bottom: at the
+ * bottom edge of the view, or in its middle like typewriter scrolling.
+ */
+type EndAlignment = 'edge' | 'center'
+
+/**
+ * What happens to the editor's selection when jumping to the top, bottom or
+ * a heading: it stays where it was, or the cursor moves along.
+ */
+type CursorBehavior = 'keep' | 'follow'
+
+/**
+ * Where the button container is placed within a pane. Left and right follow
+ * the writing direction, so they swap in right-to-left layouts.
+ */
+type ButtonAnchor =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'middle-left'
+  | 'middle-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+
+/**
+ * Where the buttons were dragged to, as distances from the nearest
+ * horizontal and vertical pane edges so they stay put when the pane is
+ * resized.
+ */
+interface ButtonPosition {
+  /** Pane edge the horizontal offset is measured from. */
+  x: 'left' | 'right'
+  /** Distance from that edge in pixels. */
+  xOffset: number
+  /** Pane edge the vertical offset is measured from. */
+  y: 'top' | 'bottom'
+  /** Distance from that edge in pixels. */
+  yOffset: number
+}
+
+/**
+ * Settings a profile can override, plus the profile-only option of
+ * hiding the buttons altogether.
+ */
+type ProfileOverrides = Partial<
+  Omit<ScrollControlSettings, (typeof NON_OVERRIDABLE_SETTINGS)[number]>
+> & {
+  /** Hide the floating buttons in matching notes (commands keep working). */
+  hideButtons?: boolean
+}
+
+/**
+ * A named set of setting overrides applied to notes in a folder, with a tag,
+ * or with a given `scroll-control` frontmatter value.
+ */
+interface SettingsProfile {
+  /** Display name of the profile. */
+  name: string
+  /** What the profile is matched against. */
+  matchType: 'folder' | 'tag' | 'frontmatter'
+  /** Folder path, tag (with or without '#'), or frontmatter value to match. */
+  match: string
+  /** Settings applied when the profile matches. */
+  overrides: ProfileOverrides
+}
+
+/**
+ * The settings in effect for one leaf after applying matching profiles.
+ */
+type ResolvedSettings = ScrollControlSettings & { hideButtons: boolean }
+
+/**
+ * Shape of the data persisted through loadData/saveData: the settings plus
+ * the remembered scroll and button positions and the marks of each note.
+ */
+type ScrollControlData = Partial<ScrollControlSettings> &
+  LegacyButtonSettings & {
+    /** Format version of the stored settings; see SETTINGS_MIGRATIONS. */
+    settingsVersion?: number
+    /** Last known scroll position (top visible line), keyed by file path. */
+    scrollPositions?: Record<string, number>
+    /** Dragged button positions, keyed by file path. */
+    buttonPositions?: Record<string, ButtonPosition>
+    /** Named marks within each note, keyed by file path. */
+    scrollMarks?: Record<string, ScrollMark[]>
+  }
+
+/**
+ * A named position within a note, as set with vim's `m a`. Anchored to the
+ * content of its line so it survives edits elsewhere in the note.
+ */
+interface ScrollMark {
+  /** A single letter or digit. */
+  name: string
+  /** Zero-based line the mark was last found at. */
+  line: number
+  /** Trimmed text of the marked line, used to find it again after edits. */
+  text: string
+  /** Block ID on the marked line, if any, which is the most reliable anchor. */
+  blockId?: string
+}
+
+/**
+ * Significant positions a leaf scrolled away from within its current note,
+ * for stepping back and forth like a browser's history.
+ */
+interface ScrollHistory {
+  /** Positions to go back to, most recent last. */
+  back: ScrollSnapshot[]
+  /** Positions to go forward to after going back, most recent last. */
+  forward: ScrollSnapshot[]
+}
+
+/**
+ * A part of a note's structure shown as a marker on the overview rail.
+ */
+interface OverviewMarker {
+  /** What the marker stands for, also used as a CSS class suffix. */
+  kind: 'heading' | 'callout' | 'code' | 'task' | 'search'
+  /** Zero-based line the marker points to. */
+  line: number
+  /** Text shown when hovering the marker. */
+  label: string
+}
+
+/**
+ * A scroll position captured for a specific file.
+ */
+interface ScrollSnapshot {
+  /** Path of the file the position belongs to. */
+  path: string
+  /** Position as returned by ScrollAdapter.getScroll(). */
+  scroll: number
+}
+
+/**
+ * What a floating button does when clicked.
+ */
+type ButtonAction =
+  | { type: 'scroll'; target: ScrollTarget }
+  | { type: 'heading'; direction: 'previous' | 'next' }
+  | { type: 'jump-back' }
+  /** Runs any Obsidian command by ID, e.g. 'markdown:toggle-preview'. */
+  | { type: 'command'; commandId: string }
+  /** Opens a URI, e.g. an obsidian:// link or a web page. */
+  | { type: 'uri'; uri: string }
+  /** Links or unlinks the pane for synchronized scrolling. */
+  | { type: 'toggle-link' }
+  /** Starts or stops scrolling the view continuously. */
+  | { type: 'auto-scroll' }
+  /** Prompts for a name and marks the current position (Markdown only). */
+  | { type: 'set-mark' }
+  /** Steps back or forward through the leaf's scroll history. */
+  | { type: 'history'; direction: 'back' | 'forward' }
+
+/**
+ * A user-configurable floating button.
+ */
+interface ButtonConfig {
+  /** Stable identifier, also used as a CSS class suffix. */
+  id: string
+  /** Whether the button is shown. */
+  enabled: boolean
+  /** Lucide icon name (see lucide.dev), or custom SVG markup. */
+  icon: string
+  /** Tooltip and accessible label. */
+  tooltip: string
+  /** What the button does. */
+  action: ButtonAction
+  /** What holding the button down does, if anything. */
+  longPressAction?: ButtonAction
+}
+
+/**
+ * Buttons available out of the box. Scroll to Top and Scroll to Bottom
+ * are enabled by default.
+ */
+const DEFAULT_BUTTONS: ButtonConfig[] = [
+  {
+    id: 'top',
+    enabled: true,
+    icon: 'chevron-up',
+    tooltip: 'Scroll to Top',
+    action: { type: 'scroll', target: { type: 'top' } },
+    longPressAction: { type: 'heading', direction: 'previous' },
+  },
+  {
+    id: 'page-up',
+    enabled: false,
+    icon: 'arrow-up',
+    tooltip: 'Scroll Up One Page',
+    action: { type: 'scroll', target: { type: 'page', direction: 'up' } },
+  },
+  {
+    id: 'previous-heading',
+    enabled: false,
+    icon: 'chevrons-up',
+    tooltip: 'Scroll to Previous Heading',
+    action: { type: 'heading', direction: 'previous' },
+  },
+  {
+    id: 'next-heading',
+    enabled: false,
+    icon: 'chevrons-down',
+    tooltip: 'Scroll to Next Heading',
+    action: { type: 'heading', direction: 'next' },
+  },
+  {
+    id: 'page-down',
+    enabled: false,
+    icon: 'arrow-down',
+    tooltip: 'Scroll Down One Page',
+    action: { type: 'scroll', target: { type: 'page', direction: 'down' } },
+  },
+  {
+    id: 'bottom',
+    enabled: true,
+    icon: 'chevron-down',
+    tooltip: 'Scroll to Bottom',
+    action: { type: 'scroll', target: { type: 'bottom' } },
+    longPressAction: { type: 'heading', direction: 'next' },
+  },
+  {
+    id: 'jump-back',
+    enabled: false,
+    icon: 'undo-2',
+    tooltip: 'Jump Back to Where I Was',
+    action: { type: 'jump-back' },
+  },
+  {
+    id: 'link',
+    enabled: false,
+    icon: 'link',
+    tooltip: 'Link Pane for Synchronized Scrolling',
+    action: { type: 'toggle-link' },
+  },
+  {
+    id: 'auto-scroll',
+    enabled: false,
+    icon: 'play',
+    tooltip: 'Start Auto-Scroll',
+    action: { type: 'auto-scroll' },
+  },
+  {
+    id: 'set-mark',
+    enabled: false,
+    icon: 'bookmark-plus',
+    tooltip: 'Set Mark',
+    action: { type: 'set-mark' },
+  },
+  {
+    id: 'history-back',
+    enabled: false,
+    icon: 'step-back',
+    tooltip: 'Scroll Back',
+    action: { type: 'history', direction: 'back' },
+  },
+  {
+    id: 'history-forward',
+    enabled: false,
+    icon: 'step-forward',
+    tooltip: 'Scroll Forward',
+    action: { type: 'history', direction: 'forward' },
+  },
+]
+
+/**
+ * Per-button visibility toggles used before the button list became
+ * configurable. Only read when migrating old data.
+ */
+interface LegacyButtonSettings {
+  showScrollTopButton?: boolean
+  showScrollBottomButton?: boolean
+  showPreviousHeadingButton?: boolean
+  showNextHeadingButton?: boolean
+  showJumpBackButton?: boolean
+  showPageUpButton?: boolean
+  showPageDownButton?: boolean
+}
+
+/**
+ * Maps each legacy visibility toggle to the ID of the button it controlled.
+ */
+const LEGACY_BUTTON_TOGGLES: Record<keyof LegacyButtonSettings, string> = {
+  showScrollTopButton: 'top',
+  showScrollBottomButton: 'bottom',
+  showPreviousHeadingButton: 'previous-heading',
+  showNextHeadingButton: 'next-heading',
+  showJumpBackButton: 'jump-back',
+  showPageUpButton: 'page-up',
+  showPageDownButton: 'page-down',
 }
 
 /**
  * Default settings for the plugin.
  */
 const DEFAULT_SETTINGS: ScrollControlSettings = {
-  showScrollTopButton: true,
-  showScrollBottomButton: true,
+  buttons: DEFAULT_BUTTONS,
   buttonSize: 'medium',
   buttonColor: '#666666',
+  buttonColorDark: '',
   useCustomColor: false,
+  iconColor: '',
+  buttonOpacity: 70,
   animationSpeed: 300,
   useAnimations: true,
+  scrollEasing: 'ease-in-out',
+  respectReducedMotion: true,
   invertButtonOrder: false,
   buttonSpacing: 12,
   horizontalPadding: 20,
   verticalPadding: 40,
+  anchor: 'bottom-right',
+  orientation: 'vertical',
+  pinToTextColumn: false,
+  draggableButtons: false,
+  rememberDragPositionPerNote: false,
+  buttonPosition: null,
+  syncScrollMode: 'percent',
+  syncLinkedTabs: true,
+  autoScrollSpeed: 30,
+  autoScrollUnit: 'pixels',
+  rememberScrollPosition: true,
+  maxRememberedPositions: 500,
+  progressIndicator: 'none',
+  showOverviewRail: false,
+  useMobileLayout: true,
+  // Bigger buttons, clear of the mobile toolbar and within thumb reach
+  mobileOverrides: {
+    buttonSize: 'large',
+    buttonSpacing: 16,
+    anchor: 'bottom-right',
+    verticalPadding: 120,
+  },
+  longPressActions: true,
+  edgeSwipeGestures: false,
+  hideButtonsAtEdges: false,
+  endOfDocumentAlignment: 'edge',
+  cursorBehavior: 'keep',
+  autoHideWhenIdle: false,
+  autoHideDelay: 3,
+  revealOnMouseNear: true,
+  enabledViewTypes: ['markdown', 'pdf', 'canvas', 'bases'],
+  profiles: [],
 }
 
-// SVG Icons for buttons
-const ICONS = {
-  scrollTop: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m18 15-6-6-6 6"/></svg>`,
-  scrollBottom: `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="m6 9 6 6 6-6"/></svg>`,
+/** Settings that apply to the whole vault and can't be overridden by profiles. */
+const NON_OVERRIDABLE_SETTINGS = [
+  'buttons',
+  'profiles',
+  'enabledViewTypes',
+  'buttonPosition',
+  'syncScrollMode',
+  'syncLinkedTabs',
+  'autoScrollSpeed',
+  'autoScrollUnit',
+  'useMobileLayout',
+  'mobileOverrides',
+] as const
+
+/**
+ * A ready-made look that can be applied in one click. Only the listed
+ * settings change; everything else is kept.
+ */
+interface SettingsPreset {
+  /** Display name of the preset. */
+  name: string
+  /** What the preset is for. */
+  description: string
+  /** Settings the preset applies. */
+  settings: Partial<Omit<ScrollControlSettings, 'buttons'>>
+  /**
+   * IDs of the built-in buttons to show; the other built-in buttons are
+   * hidden. Custom buttons are left as they are.
+   */
+  enabledButtons?: string[]
 }
 
 /**
- * Adds floating scroll-to-top and scroll-to-bottom buttons to Markdown views.
+ * Shows only the given built-in buttons, keeping the user's order, edits
+ * and custom buttons. Built-in buttons the user deleted are added back at
+ * the end if the preset needs them.
+ * @param buttons The user's button list.
+ * @param ids IDs of the built-in buttons to enable.
+ * @returns The new button list.
  */
-export default class ScrollControlPlugin extends Plugin {
-  settings: ScrollControlSettings
-  leafButtonContainers = new Map<WorkspaceLeaf, HTMLElement>()
-  styleEl: HTMLStyleElement | null = null
+function presetButtons(buttons: ButtonConfig[], ids: string[]): ButtonConfig[] {
+  const defaultIds = DEFAULT_BUTTONS.map((button) => button.id)
+  const result = buttons.map((button) =>
+    defaultIds.includes(button.id)
+      ? { ...button, enabled: ids.includes(button.id) }
+      : button,
+  )
+  DEFAULT_BUTTONS.forEach((button) => {
+    if (
+      ids.includes(button.id) &&
+      !buttons.some(({ id }) => id === button.id)
+    ) {
+      result.push({ ...structuredClone(button), enabled: true })
+    }
+  })
+  return result
+}
 
-  constructor(app: App, manifest: PluginManifest) {
-    super(app, manifest)
-    this.settings = DEFAULT_SETTINGS
-  }
+/** Built-in presets offered in the settings tab. */
+const SETTINGS_PRESETS: SettingsPreset[] = [
+  {
+    name: 'Minimal',
+    description:
+      'Two small buttons that stay out of the way until you need them',
+    enabledButtons: ['top', 'bottom'],
+    settings: {
+      buttonSize: 'small',
+      useCustomColor: false,
+      hideButtonsAtEdges: true,
+      autoHideWhenIdle: true,
+      autoHideDelay: 2,
+      revealOnMouseNear: true,
+      progressIndicator: 'none',
+      showOverviewRail: false,
+    },
+  },
+  {
+    name: 'Presentation',
+    description:
+      'A row of large paging and auto-scroll buttons for reading to an audience',
+    enabledButtons: [
+      'page-up',
+      'previous-heading',
+      'auto-scroll',
+      'next-heading',
+      'page-down',
+    ],
+    settings: {
+      buttonSize: 'large',
+      anchor: 'bottom-center',
+      orientation: 'horizontal',
+      buttonSpacing: 16,
+      progressIndicator: 'bar',
+      autoHideWhenIdle: true,
+      autoHideDelay: 3,
+      revealOnMouseNear: true,
+    },
+  },
+  {
+    name: 'Mobile',
+    description:
+      'Large buttons within thumb reach, with long-press and edge swipe gestures',
+    enabledButtons: ['top', 'page-up', 'page-down', 'bottom', 'jump-back'],
+    settings: {
+      // Only phones and tablets get the large buttons
+      useMobileLayout: true,
+      mobileOverrides: {
+        buttonSize: 'large',
+        buttonSpacing: 16,
+        anchor: 'middle-right',
+      },
+      longPressActions: true,
+      edgeSwipeGestures: true,
+      hideButtonsAtEdges: true,
+    },
+  },
+  {
+    name: 'High Contrast',
+    description: 'Large, bright buttons with a progress ring and no animations',
+    settings: {
+      buttonSize: 'large',
+      useCustomColor: true,
+      buttonColor: '#ffd700',
+      buttonColorDark: '',
+      iconColor: '#000000',
+      buttonOpacity: 100,
+      useAnimations: false,
+      progressIndicator: 'ring',
+      autoHideWhenIdle: false,
+    },
+  },
+]
+
+/** File in the vault root that settings are exported to. */
+const SETTINGS_EXPORT_PATH = 'scroll-control-settings.json'
+
+/** Icon of new custom buttons, also shown when custom SVG markup is invalid. */
+const DEFAULT_CUSTOM_ICON = 'circle'
+
+/**
+ * Elements allowed in custom SVG icons. Anything else, notably scripts,
+ * foreignObject and images, is removed before the icon is shown.
+ */
+const SVG_ALLOWED_ELEMENTS = [
+  'svg',
+  'g',
+  'path',
+  'circle',
+  'ellipse',
+  'rect',
+  'line',
+  'polyline',
+  'polygon',
+  'title',
+  'desc',
+]
+
+/** Action of `obsidian://scroll-control` links. */
+const URI_ACTION = 'scroll-control'
+
+/**
+ * Milliseconds to wait before following a scroll link, so the note has
+ * rendered and its remembered position (restored after 50ms) doesn't win.
+ */
+const URI_SCROLL_DELAY = 100
+
+/** Frontmatter key used to select a profile (or 'hidden') for a single note. */
+const FRONTMATTER_KEY = 'scroll-control'
+
+/**
+ * Distance in pixels from the pane edge the buttons are on within which
+ * the mouse reveals them.
+ */
+const REVEAL_DISTANCE = 80
+
+/** Labels for the anchor positions, in the order they are offered. */
+const ANCHOR_LABELS: Record<ButtonAnchor, string> = {
+  'top-left': 'Top left',
+  'top-center': 'Top center',
+  'top-right': 'Top right',
+  'middle-left': 'Middle left',
+  'middle-right': 'Middle right',
+  'bottom-left': 'Bottom left',
+  'bottom-center': 'Bottom center',
+  'bottom-right': 'Bottom right',
+}
+
+/** Pointer movement in pixels before a press on the buttons becomes a drag. */
+const DRAG_THRESHOLD = 4
+
+/** Dropping the buttons within this many pixels of an edge snaps them to it. */
+const DRAG_SNAP_DISTANCE = 24
+
+/** Distance from the edge that snapped buttons rest at, in pixels. */
+const DRAG_SNAP_MARGIN = 8
+
+/**
+ * Milliseconds during which scroll events from a pane that was just synced
+ * are ignored, so they don't echo back to the pane that drove them.
+ */
+const SYNC_ECHO_WINDOW = 150
+
+/** Factor the auto-scroll speed changes by with each faster/slower step. */
+const AUTO_SCROLL_SPEED_STEP = 1.25
+
+/** Lowest and highest auto-scroll speeds, in pixels or lines per second. */
+const AUTO_SCROLL_MIN_SPEED = 0.5
+const AUTO_SCROLL_MAX_SPEED = 500
+
+/** Names accepted for marks: a single letter or digit, as in vim. */
+const MARK_NAME_PATTERN = /^[a-z0-9]$/i
+
+/** Block IDs at the end of a line, e.g. "Some text ^my-block". */
+const BLOCK_ID_PATTERN = /\s\^([\w-]+)$/
+
+/** Width of the overview rail in pixels. */
+const OVERVIEW_RAIL_WIDTH = 10
+
+/** Most search matches marked on the overview rail, to keep it readable. */
+const MAX_SEARCH_MARKERS = 200
+
+/** Most positions kept in each direction of a leaf's scroll history. */
+const MAX_SCROLL_HISTORY = 50
+
+/**
+ * Scrolling further than this many viewport heights in one go (e.g. by
+ * following a link to a heading) adds the old position to the history.
+ */
+const HISTORY_DISTANCE_FACTOR = 2
+
+/** Milliseconds a button must be held down to run its long-press action. */
+const LONG_PRESS_DELAY = 500
+
+/** Width in pixels of the strip along the pane edge where swipes start. */
+const EDGE_SWIPE_ZONE = 32
+
+/** Shortest vertical distance in pixels that counts as an edge swipe. */
+const EDGE_SWIPE_DISTANCE = 80
+
+/** Longest duration in milliseconds that counts as an edge swipe. */
+const EDGE_SWIPE_DURATION = 600
+
+/** Fraction of the viewport scrolled by a page step, keeping some context. */
+const PAGE_OVERLAP_FACTOR = 0.9
+
+/**
+ * Milliseconds the end of a document must stay put before a scroll to the
+ * bottom counts as arrived.
+ */
+const BOTTOM_SETTLE_TIME = 300
+
+/** Longest a scroll to the bottom keeps chasing late content, in milliseconds. */
+const BOTTOM_FOLLOW_TIMEOUT = 5000
+
+/** Input that hands control back to the user during an animated scroll. */
+const USER_SCROLL_EVENTS = [
+  'wheel',
+  'touchstart',
+  'pointerdown',
+  'keydown',
+] as const
+
+/** Stops the scroll to the bottom in progress on each element, if any. */
+const bottomFollows = new WeakMap<HTMLElement, () => void>()
+
+/** Stops the scroll animation running on each element, if any. */
+const scrollAnimations = new WeakMap<HTMLElement, () => void>()
+
+/** Labels for the scroll easing curves, in the order they are offered. */
+const SCROLL_EASING_LABELS: Record<ScrollEasing, string> = {
+  'ease-in-out': 'Ease in and out',
+  cubic: 'Cubic (fast start, gentle stop)',
+  linear: 'Linear',
+  spring: 'Spring (slight overshoot)',
+}
+
+/**
+ * Easing curves, mapping the elapsed fraction of an animation to the
+ * fraction of the distance covered.
+ */
+const SCROLL_EASINGS: Record<ScrollEasing, (progress: number) => number> = {
+  'ease-in-out': (progress) => (1 - Math.cos(Math.PI * progress)) / 2,
+  cubic: (progress) => 1 - Math.pow(1 - progress, 3),
+  linear: (progress) => progress,
+  // A damped oscillation that ends exactly on target
+  spring: (progress) =>
+    1 - Math.exp(-6 * progress) * Math.cos(4.5 * Math.PI * progress),
+}
+
+/**
+ * Checks whether a string is one of the scroll easing curves.
+ * @param value The value to check.
+ * @returns True if the value is a ScrollEasing.
+ */
+function isScrollEasing(value: string): value is ScrollEasing {
+  return value in SCROLL_EASINGS
+}
 
+/**
+ * Bounds of the factor the scroll duration is scaled by, so short scrolls
+ * stay snappy and long jumps don't drag on.
+ */
+const SCROLL_DURATION_MIN_FACTOR = 0.5
+const SCROLL_DURATION_MAX_FACTOR = 3
+
+/**
+ * A running auto-scroll. Only one view auto-scrolls at a time.
+ */
+interface AutoScrollState {
+  /** The leaf being scrolled. */
+  leaf: WorkspaceLeaf
+  /** The element being scrolled. */
+  scrollEl: HTMLElement
+  /** Exact scroll offset, since scrollTop may round to whole pixels. */
+  position: number
+  /** Timestamp of the previous animation frame, or null before the first. */
+  lastTime: number | null
+  /** ID of the pending animation frame. */
+  frame: number
+  /** Removes the listeners that stop the auto-scroll on user input. */
+  cleanup: () => void
+}
+
+/**
+ * Scroll operations for one kind of view. Lets the plugin drive Markdown
+ * notes, PDFs, canvases and other views through the same interface.
+ */
+interface ScrollAdapter {
+  /** The view this adapter drives. */
+  readonly view: View
+  /** Returns the element that scrolls, or null if the view doesn't scroll natively. */
+  getScrollElement(): HTMLElement | null
+  /** Returns the current position in the adapter's own units. */
+  getScroll(): number
+  /** Restores a position previously returned by getScroll(). */
+  applyScroll(scroll: number): void
   /**
-   * Plugin load lifecycle method. Loads settings, adds commands, settings tab,
-   * injects styles, and initializes buttons for existing and future Markdown views.
+   * Scrolls to the given target, animated unless `animation` is null.
+   * Targets the view can't express are ignored. `endAlignment` only applies
+   * to the bottom of Markdown notes.
    */
-  override async onload() {
-    await this.loadSettings()
+  scrollTo(
+    target: ScrollTarget,
+    animation: ScrollAnimation | null,
+    endAlignment?: EndAlignment,
+  ): void
+}
 
-    // Register commands
-    this.addCommand({
-      id: 'scroll-to-top',
-      name: 'Scroll to Top',
-      callback: () =>
-        this.scrollToPosition('top', this.getActiveMarkdownView()),
-    })
+/**
+ * Drives Markdown views in both source and preview mode.
+ * Positions are expressed in lines, as used by MarkdownSubView.
+ */
+class MarkdownScrollAdapter implements ScrollAdapter {
+  constructor(readonly view: MarkdownView) {}
 
-    this.addCommand({
-      id: 'scroll-to-bottom',
-      name: 'Scroll to Bottom',
-      callback: () =>
-        this.scrollToPosition('bottom', this.getActiveMarkdownView()),
-    })
+  getScrollElement(): HTMLElement | null {
+    if (this.view.getMode() === 'source') {
+      return this.view.contentEl.querySelector<HTMLElement>('.cm-scroller')
+    }
+    return this.view.previewMode.containerEl.querySelector<HTMLElement>(
+      '.markdown-preview-view',
+    )
+  }
 
-    // Add settings tab
-    this.addSettingTab(new ScrollControlSettingTab(this.app, this))
+  getScroll(): number {
+    return this.view.currentMode.getScroll()
+  }
 
-    // Inject Stylesheet
-    this.addStyle()
+  applyScroll(scroll: number) {
+    this.view.currentMode.applyScroll(scroll)
+  }
 
-    // Add buttons to existing leaves and listen for layout changes
-    this.app.workspace.onLayoutReady(() => {
-      this.initializeAllButtons()
-      this.registerEvent(
-        this.app.workspace.on('layout-change', this.handleLayoutChange),
-      )
-      // Listen for active leaf changes to update visibility
-      this.registerEvent(
-        this.app.workspace.on(
-          'active-leaf-change',
-          this.handleActiveLeafChange,
+  scrollTo(
+    target: ScrollTarget,
+    animation: ScrollAnimation | null,
+    endAlignment: EndAlignment = 'edge',
+  ) {
+    if (target.type === 'line') {
+      // Both modes position by source line
+      const lastLine = this.view.editor.lineCount() - 1
+      const line = Math.min(Math.max(target.line, 0), lastLine)
+      const scrollEl = this.getScrollElement()
+      if (!animation || !scrollEl) {
+        this.view.currentMode.applyScroll(line)
+        return
+      }
+      // Animate in lines, which both modes understand
+      const from = this.view.currentMode.getScroll()
+      animateScroll(
+        scrollEl,
+        from,
+        line,
+        getScrollDuration(
+          Math.abs(line - from) * getLineHeight(scrollEl),
+          scrollEl.clientHeight,
+          animation.duration,
         ),
+        animation.easing,
+        (value) => this.view.currentMode.applyScroll(value),
       )
-    })
-  }
+      return
+    }
 
-  override onunload() {
-    // Remove all button containers
-    this.leafButtonContainers.forEach((container) => container.remove())
-    this.leafButtonContainers.clear()
-    // Remove stylesheet
-    this.styleEl?.remove()
-    this.styleEl = null
+    // Scroll the element directly so both modes animate alike
+    const scrollEl = this.getScrollElement()
+    if (scrollEl) {
+      scrollElementTo(
+        scrollEl,
+        target,
+        animation,
+        endAlignment === 'center' ? () => this.getLastContentElement() : null,
+      )
+    }
   }
 
   /**
-   * Retrieves the MarkdownView instance of the currently active workspace leaf.
-   * @returns The active MarkdownView, or null if the active leaf is not a Markdown view.
+   * Finds the last rendered element of the note's content, whose bottom
+   * is the end of the document, leaving out the padding and reading
+   * view's footer (e.g. embedded backlinks) below it.
+   * @returns The element, or null if nothing is rendered.
    */
-  private getActiveMarkdownView(): MarkdownView | null {
-    const leaf = this.app.workspace.activeLeaf
-    if (leaf?.view instanceof MarkdownView) {
-      return leaf.view
+  private getLastContentElement(): Element | null {
+    if (this.view.getMode() === 'source') {
+      return (
+        this.view.contentEl.querySelector('.cm-content')?.lastElementChild ??
+        null
+      )
     }
-    return null
+    const sizer = this.view.previewMode.containerEl.querySelector(
+      '.markdown-preview-sizer',
+    )
+    const sections = Array.from(sizer?.children ?? []).filter(
+      (child) =>
+        !child.hasClass('mod-header') &&
+        !child.hasClass('mod-footer') &&
+        !child.hasClass('markdown-preview-pusher'),
+    )
+    return sections.pop() ?? null
   }
+}
 
-  /**
-   * Loads plugin settings from storage, merging with defaults.
-   */
-  async loadSettings() {
-    this.settings = Object.assign(
-      {},
-      DEFAULT_SETTINGS,
-      await this.loadData(),
-    ) as ScrollControlSettings
-  }
+/**
+ * Drives any view whose content lives in a regular scrolling element,
+ * such as PDFs, Bases, images or plugin-provided views.
+ * Positions are expressed in pixels.
+ */
+class ElementScrollAdapter implements ScrollAdapter {
+  private scrollEl: HTMLElement | null = null
 
-  /**
-   * Saves current plugin settings to storage and updates buttons and styles.
-   */
-  async saveSettings() {
-    await this.saveData(this.settings)
-    // Re-initialize buttons in all leaves to reflect settings changes
-    this.updateAllButtons()
-    // Update styles if necessary (e.g., padding, spacing)
-    this.updateStyle()
+  constructor(readonly view: ItemView) {}
+
+  getScrollElement(): HTMLElement | null {
+    // Views often re-render their content, so re-discover stale elements
+    if (!this.scrollEl?.isConnected || !isScrollable(this.scrollEl)) {
+      this.scrollEl = findScrollableElement(this.view.contentEl)
+    }
+    return this.scrollEl
   }
 
-  /**
-   * Helper to iterate over all currently open Markdown leaves.
-   * @param callback Function to execute for each Markdown leaf.
-   */
-  private forAllMarkdownLeaves(callback: (leaf: WorkspaceLeaf) => void) {
-    this.app.workspace.getLeavesOfType('markdown').forEach(callback)
+  getScroll(): number {
+    return this.getScrollElement()?.scrollTop ?? 0
   }
 
-  /**
-   * Creates button containers for all currently open Markdown leaves.
-   */
-  private initializeAllButtons() {
-    this.forAllMarkdownLeaves((leaf) => {
-      this.addButtonsToLeaf(leaf)
-    })
+  applyScroll(scroll: number) {
+    this.getScrollElement()?.scrollTo({ top: scroll })
   }
 
-  /**
-   * Removes and re-adds buttons in all Markdown leaves.
-   * Used after settings changes that affect button appearance or layout.
-   */
-  private updateAllButtons() {
-    this.forAllMarkdownLeaves((leaf) => {
-      this.removeButtonsFromLeaf(leaf) // Remove old ones first
-      this.addButtonsToLeaf(leaf) // Add new ones with updated settings
-    })
+  scrollTo(target: ScrollTarget, animation: ScrollAnimation | null) {
+    // Plain elements have no notion of lines
+    const scrollEl = this.getScrollElement()
+    if (scrollEl && target.type !== 'line') {
+      scrollElementTo(scrollEl, target, animation)
+    }
   }
+}
 
-  /**
-   * Debounced handler for Obsidian's 'layout-change' event.
-   * Detects newly opened or closed Markdown leaves and adds/removes buttons accordingly.
-   */
-  private handleLayoutChange = debounce(
-    () => {
-      const currentLeaves = new Set(
-        this.app.workspace.getLeavesOfType('markdown'),
-      )
-      const knownLeaves = new Set(this.leafButtonContainers.keys())
+/** The parts of a canvas node used for panning. */
+interface CanvasNodeLike {
+  x: number
+  y: number
+  width: number
+  height: number
+}
 
-      // Add buttons to new leaves
-      currentLeaves.forEach((leaf) => {
-        if (!knownLeaves.has(leaf)) {
-          this.addButtonsToLeaf(leaf)
-        }
-      })
+/** The parts of Obsidian's (undocumented) canvas object used for panning. */
+interface CanvasLike {
+  nodes: Map<string, CanvasNodeLike>
+  /** Horizontal center of the viewport in canvas coordinates. */
+  x: number
+  /** Vertical center of the viewport in canvas coordinates. */
+  y: number
+  /** Screen pixels per canvas unit. */
+  scale: number
+  panTo(x: number, y: number): void
+}
 
-      // Remove buttons from closed leaves
-      knownLeaves.forEach((leaf) => {
-        if (!currentLeaves.has(leaf)) {
-          this.removeButtonsFromLeaf(leaf)
-        }
-      })
-    },
-    300,
-    true,
-  )
+/**
+ * Drives Canvas views by panning instead of scrolling.
+ * Positions are the vertical canvas coordinate of the viewport center.
+ */
+class CanvasScrollAdapter implements ScrollAdapter {
+  constructor(
+    readonly view: ItemView,
+    private canvas: CanvasLike,
+  ) {}
 
-  /**
-   * Handler for Obsidian's 'active-leaf-change' event.
-   * Updates the visibility (opacity, pointer-events) of button containers
-   * in all managed leaves based on which leaf is now active.
-   * @param activeLeaf The newly activated workspace leaf, or null if none.
-   */
-  private handleActiveLeafChange = (activeLeaf: WorkspaceLeaf | null) => {
-    this.leafButtonContainers.forEach((container, leaf) => {
-      if (leaf.view instanceof MarkdownView) {
-        const shouldBeVisible = leaf === activeLeaf
-        container.toggleClass('scroll-control-visible', shouldBeVisible)
-        container.toggleClass('scroll-control-hidden', !shouldBeVisible)
-      }
-    })
+  getScrollElement(): HTMLElement | null {
+    return null
   }
 
-  /**
-   * Creates and appends a button container to the specified Markdown leaf's content element.
-   * Tracks the container and populates it with buttons.
-   * Sets initial visibility based on the leaf's active state.
-   * @param leaf The workspace leaf to add buttons to.
-   */
-  private addButtonsToLeaf(leaf: WorkspaceLeaf) {
-    if (
-      !(leaf.view instanceof MarkdownView) ||
-      this.leafButtonContainers.has(leaf)
-    ) {
-      return // Only add to Markdown views and only if not already added
-    }
+  getScroll(): number {
+    return this.canvas.y
+  }
 
-    const view = leaf.view
-    const container = document.createElement('div')
-    container.addClass('scroll-control-button-container')
+  applyScroll(scroll: number) {
+    this.canvas.panTo(this.canvas.x, scroll)
+  }
 
-    // Find the .view-content element within the view's container
-    const viewContent = view.containerEl.querySelector('.view-content')
-    if (!viewContent) {
-      return
-    }
+  scrollTo(target: ScrollTarget) {
+    const nodes = Array.from(this.canvas.nodes.values())
+    const centerOf = (node: CanvasNodeLike) => node.y + node.height / 2
 
-    viewContent.appendChild(container)
-    this.leafButtonContainers.set(leaf, container)
-    this.createFloatingButtons(container, view)
-    this.updateSingleLeafVisibility(leaf)
+    switch (target.type) {
+      case 'top':
+      case 'bottom': {
+        // Pan to the top-most or bottom-most node
+        const edgeOf = (node: CanvasNodeLike) =>
+          target.type === 'top' ? -node.y : node.y + node.height
+        const node = nodes.reduce<CanvasNodeLike | undefined>(
+          (best, node) => (!best || edgeOf(node) > edgeOf(best) ? node : best),
+          undefined,
+        )
+        if (node) {
+          this.canvas.panTo(node.x + node.width / 2, centerOf(node))
+        }
+        break
+      }
+      case 'page': {
+        const pageHeight =
+          (this.view.contentEl.clientHeight * PAGE_OVERLAP_FACTOR) /
+          this.canvas.scale
+        const delta = target.direction === 'up' ? -pageHeight : pageHeight
+        this.canvas.panTo(this.canvas.x, this.canvas.y + delta)
+        break
+      }
+      case 'percent': {
+        // Interpolate between the top-most and bottom-most node centers
+        if (nodes.length === 0) break
+        const centers = nodes.map(centerOf)
+        const top = Math.min(...centers)
+        const bottom = Math.max(...centers)
+        this.canvas.panTo(
+          this.canvas.x,
+          top + ((bottom - top) * clampPercent(target.percent)) / 100,
+        )
+        break
+      }
+      case 'line':
+        // Canvases have no lines
+        break
+    }
   }
+}
 
-  /**
-   * Removes the button container from a specific leaf and stops tracking it.
-   * @param leaf The workspace leaf to remove buttons from.
-   */
-  private removeButtonsFromLeaf(leaf: WorkspaceLeaf) {
-    if (this.leafButtonContainers.has(leaf)) {
-      const container = this.leafButtonContainers.get(leaf)
-      container?.remove()
-      this.leafButtonContainers.delete(leaf)
+/**
+ * Clamps a percentage to the 0-100 range.
+ * @param percent The percentage to clamp.
+ * @returns The clamped percentage.
+ */
+function clampPercent(percent: number): number {
+  return Math.min(Math.max(percent, 0), 100)
+}
+
+/**
+ * Scrolls a plain scrolling element to a pixel-based target.
+ * @param el The element to scroll.
+ * @param target Any target except 'line', which needs view knowledge.
+ * @param animation How to animate the scroll, or null to jump.
+ * @param getEndElement To center the end of the document when scrolling to
+ *   the bottom: returns the element the content ends with.
+ */
+function scrollElementTo(
+  el: HTMLElement,
+  target: Exclude<ScrollTarget, { type: 'line' }>,
+  animation: ScrollAnimation | null,
+  getEndElement: (() => Element | null) | null = null,
+) {
+  const maxScroll = el.scrollHeight - el.clientHeight
+  let top: number
+  switch (target.type) {
+    case 'top':
+      top = 0
+      break
+    case 'bottom':
+      followToBottom(el, animation, getEndElement)
+      return
+    case 'page': {
+      const pageHeight = el.clientHeight * PAGE_OVERLAP_FACTOR
+      top =
+        el.scrollTop + (target.direction === 'up' ? -pageHeight : pageHeight)
+      break
     }
+    case 'percent':
+      top = (maxScroll * clampPercent(target.percent)) / 100
+      break
   }
+  scrollElementToOffset(el, top, animation)
+}
 
-  /**
-   * Sets the initial visibility (opacity, pointer-events) for a single leaf's button container
-   * based on whether it is currently the active leaf.
-   * @param leaf The workspace leaf whose button visibility should be updated.
-   */
-  private updateSingleLeafVisibility(leaf: WorkspaceLeaf) {
-    const container = this.leafButtonContainers.get(leaf)
-    if (container) {
-      const isActive = this.app.workspace.activeLeaf === leaf
-      container.toggleClass('scroll-control-visible', isActive)
-      container.toggleClass('scroll-control-hidden', !isActive)
-    }
+/**
+ * Scrolls an element to a pixel offset, clamped to its scrollable range.
+ * @param el The element to scroll.
+ * @param top The offset from the top in pixels.
+ * @param animation How to animate the scroll, or null to jump.
+ */
+function scrollElementToOffset(
+  el: HTMLElement,
+  top: number,
+  animation: ScrollAnimation | null,
+) {
+  const to = Math.min(Math.max(top, 0), el.scrollHeight - el.clientHeight)
+  if (!animation) {
+    scrollAnimations.get(el)?.()
+    el.scrollTo({ top: to })
+    return
   }
+  animateScroll(
+    el,
+    el.scrollTop,
+    to,
+    getScrollDuration(
+      Math.abs(to - el.scrollTop),
+      el.clientHeight,
+      animation.duration,
+    ),
+    animation.easing,
+    (value) => {
+      el.scrollTop = value
+    },
+  )
+}
 
-  /**
-   * Scrolls the provided MarkdownView to the top or bottom.
-   * Handles both source and preview modes.
-   * @param position 'top' or 'bottom'.
-   * @param view The MarkdownView instance to scroll.
-   */
-  private scrollToPosition(
-    position: 'top' | 'bottom',
-    view: MarkdownView | null,
-  ) {
-    if (!view) return
+/**
+ * Scales the configured scroll duration with the distance covered: a
+ * one-page scroll takes the configured time, longer ones take longer, but
+ * only with the square root of the distance.
+ * @param distance Distance to scroll in pixels.
+ * @param viewport Height of the viewport in pixels.
+ * @param duration The configured duration in milliseconds.
+ * @returns The duration of this scroll in milliseconds.
+ */
+function getScrollDuration(
+  distance: number,
+  viewport: number,
+  duration: number,
+): number {
+  const factor = Math.sqrt(distance / Math.max(viewport, 1))
+  return (
+    duration *
+    Math.min(
+      Math.max(factor, SCROLL_DURATION_MIN_FACTOR),
+      SCROLL_DURATION_MAX_FACTOR,
+    )
+  )
+}
 
-    if (view.getMode() === 'source') {
-      const editor = view.editor
-      const line = position === 'top' ? 0 : editor.lineCount() - 1
-      editor.scrollIntoView(
-        { from: { line, ch: 0 }, to: { line, ch: 0 } },
-        true, // center
-      )
+/**
+ * Animates a scroll frame by frame, so every view and mode scrolls with
+ * the same duration and easing. Works in any unit: pixels for plain
+ * elements, lines for Markdown views. Starting another animation on the
+ * same element, or the user scrolling, clicking or typing, cancels it.
+ * @param el The element being scrolled.
+ * @param from The start position.
+ * @param to The end position.
+ * @param duration Duration in milliseconds.
+ * @param easing The easing curve.
+ * @param apply Moves the view to a position between `from` and `to`.
+ */
+function animateScroll(
+  el: HTMLElement,
+  from: number,
+  to: number,
+  duration: number,
+  easing: ScrollEasing,
+  apply: (position: number) => void,
+) {
+  scrollAnimations.get(el)?.()
+
+  let frame = 0
+  const startTime = performance.now()
+  const stop = () => {
+    window.cancelAnimationFrame(frame)
+    USER_SCROLL_EVENTS.forEach((type) =>
+      el.removeEventListener(type, stop, true),
+    )
+    scrollAnimations.delete(el)
+  }
+
+  const step = (now: number) => {
+    const progress = Math.min((now - startTime) / Math.max(duration, 1), 1)
+    apply(from + (to - from) * SCROLL_EASINGS[easing](progress))
+    if (progress < 1) {
+      frame = window.requestAnimationFrame(step)
     } else {
-      // Preview mode scrolling
-      const previewEl = view.previewMode.containerEl.querySelector<HTMLElement>(
-        '.markdown-preview-view',
-      )
-      if (previewEl) {
-        previewEl.scrollTo({
-          top: position === 'top' ? 0 : previewEl.scrollHeight,
-          behavior: this.settings.useAnimations ? 'smooth' : 'auto',
-        })
-      }
+      stop()
     }
   }
 
-  /**
-   * Creates the individual floating action buttons and appends them to the provided container.
-   * Button appearance, order, and actions are determined by plugin settings.
-   * @param container The parent HTMLElement to append the buttons to.
-   * @param view The MarkdownView associated with this set of buttons.
-   */
-  private createFloatingButtons(container: HTMLElement, view: MarkdownView) {
-    // Clear any existing buttons in the container first
-    container.empty()
-
-    const createButton = (
-      iconSvg: string,
-      tooltip: string,
-      callback: () => void,
-    ) => {
-      const button = document.createElement('div')
-      button.addClass('scroll-control-button')
-      button.addClass(`scroll-control-button-${this.settings.buttonSize}`)
-      if (this.settings.useAnimations) {
-        button.addClass('scroll-control-button-animated')
-      }
-
-      let iconColor = 'currentColor'
+  USER_SCROLL_EVENTS.forEach((type) => el.addEventListener(type, stop, true))
+  scrollAnimations.set(el, stop)
+  frame = window.requestAnimationFrame(step)
+}
 
-      if (this.settings.useCustomColor) {
-        button.style.setProperty(
-          '--scroll-control-custom-bg',
-          this.settings.buttonColor,
-        )
-        iconColor = this.getContrastColor(this.settings.buttonColor)
-        button.style.setProperty('--scroll-control-custom-color', iconColor)
-        button.addClass('scroll-control-button-custom')
-      } else {
-        button.addClass('scroll-control-button-default')
-      }
+/**
+ * Scrolls an element to its very end, and keeps following the end while
+ * content below is still rendering: Markdown previews render sections
+ * lazily, the editor measures lines as they come into view, and images
+ * and embeds load late, each growing the document after the first scroll.
+ * Stops once the end has stayed put for BOTTOM_SETTLE_TIME, after
+ * BOTTOM_FOLLOW_TIMEOUT, or as soon as the user scrolls, clicks or types.
+ * @param el The element to scroll.
+ * @param animation How to animate the scroll, or null to jump.
+ * @param getEndElement If given, the bottom of the element it returns is
+ *   centered in the view instead of scrolling to the bottom edge; padding
+ *   below the content provides the room.
+ */
+function followToBottom(
+  el: HTMLElement,
+  animation: ScrollAnimation | null,
+  getEndElement: (() => Element | null) | null = null,
+) {
+  bottomFollows.get(el)?.()
 
-      // Create SVG element using DOM API instead of innerHTML
-      const svgElement = this.createSVGFromString(iconSvg, iconColor)
-      button.appendChild(svgElement)
-      button.setAttribute('aria-label', tooltip)
-      // Positioning (bottom, right) is now handled by the container's CSS
+  let frame = 0
+  let lastTarget = -1
+  let settledSince = 0
+  const startTime = performance.now()
+  const stop = () => {
+    window.cancelAnimationFrame(frame)
+    USER_SCROLL_EVENTS.forEach((type) =>
+      el.removeEventListener(type, stop, true),
+    )
+    bottomFollows.delete(el)
+  }
 
-      button.addEventListener('click', (event) => {
-        event.stopPropagation() // Prevent clicks bubbling up
-        callback()
-      })
-      // Append to the provided container, not document.body
-      container.appendChild(button)
+  const step = (now: number) => {
+    const endEl = getEndElement?.()
+    const target = endEl
+      ? endEl.getBoundingClientRect().bottom -
+        el.getBoundingClientRect().top +
+        el.scrollTop -
+        el.clientHeight / 2
+      : el.scrollHeight
+    if (Math.abs(target - lastTarget) > 1) {
+      // The document grew (or shrank); aim for its new end
+      lastTarget = target
+      settledSince = now
+      scrollElementToOffset(el, target, animation)
     }
-
-    const buttons = []
-    if (this.settings.showScrollTopButton) {
-      buttons.push({
-        icon: ICONS.scrollTop,
-        tooltip: 'Scroll to Top',
-        callback: () => this.scrollToPosition('top', view),
-        order: this.settings.invertButtonOrder ? 1 : 0, // Order based on setting
-      })
+    // Allow a pixel of slack for fractional scroll offsets
+    const end = Math.min(Math.max(target, 0), el.scrollHeight - el.clientHeight)
+    const atEnd = Math.abs(el.scrollTop - end) <= 1
+    if (!atEnd) {
+      // Still animating there; only count time spent at the end
+      settledSince = now
     }
-    if (this.settings.showScrollBottomButton) {
-      buttons.push({
-        icon: ICONS.scrollBottom,
-        tooltip: 'Scroll to Bottom',
-        callback: () => this.scrollToPosition('bottom', view),
-        order: this.settings.invertButtonOrder ? 0 : 1,
-      })
+    if (
+      (atEnd && now - settledSince >= BOTTOM_SETTLE_TIME) ||
+      now - startTime >= BOTTOM_FOLLOW_TIMEOUT
+    ) {
+      stop()
+      return
     }
+    frame = window.requestAnimationFrame(step)
+  }
 
-    // Sort buttons based on order and create them
-    buttons.sort((a, b) => a.order - b.order)
-    buttons.forEach((btnData) => {
-      createButton(btnData.icon, btnData.tooltip, btnData.callback)
-    })
+  USER_SCROLL_EVENTS.forEach((type) => el.addEventListener(type, stop, true))
+  bottomFollows.set(el, stop)
+  step(startTime)
+}
+
+/**
+ * Checks whether an element currently scrolls vertically.
+ * @param el The element to check.
+ * @returns True if the element has overflowing, scrollable content.
+ */
+function isScrollable(el: HTMLElement): boolean {
+  if (el.scrollHeight <= el.clientHeight + 1) return false
+  const { overflowY } = getComputedStyle(el)
+  return overflowY === 'auto' || overflowY === 'scroll'
+}
+
+/**
+ * Finds the outermost scrollable element inside a view, breadth first.
+ * @param root The element to search from (inclusive).
+ * @returns The scrollable element, or null if nothing scrolls.
+ */
+function findScrollableElement(root: HTMLElement): HTMLElement | null {
+  const queue: Element[] = [root]
+  // Keep the search cheap on very large DOMs
+  for (let visited = 0; queue.length > 0 && visited < 500; visited++) {
+    const el = queue.shift()
+    if (el instanceof HTMLElement && isScrollable(el)) return el
+    if (el) queue.push(...Array.from(el.children))
   }
+  return null
+}
 
-  /**
-   * Creates the plugin's stylesheet element and appends it to the document head.
-   * Should be called once during plugin load.
-   */
-  private addStyle() {
-    this.styleEl?.remove()
+/**
+ * Checks whether a value looks like Obsidian's internal canvas object.
+ * @param value The value to check.
+ * @returns True if the value has the members CanvasScrollAdapter needs.
+ */
+function isCanvasLike(value: unknown): value is CanvasLike {
+  const candidate = value as Partial<CanvasLike> | null | undefined
+  return (
+    candidate?.nodes instanceof Map &&
+    typeof candidate.panTo === 'function' &&
+    typeof candidate.scale === 'number'
+  )
+}
 
-    this.styleEl = document.createElement('style')
-    this.styleEl.setAttribute('id', 'scroll-control-styles')
-    document.head.appendChild(this.styleEl)
-    this.updateStyle()
+/**
+ * Picks the scroll adapter matching a view.
+ * @param view The view to drive.
+ * @returns The adapter, or null if the view can't be scrolled.
+ */
+function createScrollAdapter(view: View): ScrollAdapter | null {
+  if (view instanceof MarkdownView) {
+    return new MarkdownScrollAdapter(view)
+  }
+  if (!(view instanceof ItemView)) {
+    return null
   }
+  const { canvas } = view as ItemView & { canvas?: unknown }
+  if (isCanvasLike(canvas)) {
+    return new CanvasScrollAdapter(view, canvas)
+  }
+  return new ElementScrollAdapter(view)
+}
 
-  /**
-   * Updates the content of the plugin's stylesheet based on current settings.
-   * Defines CSS variables and rules for button container and button appearance/positioning.
-   */
-  private updateStyle() {
-    if (!this.styleEl) {
-      return
+/**
+ * Builds the button list from the per-button toggles of older versions.
+ * @param legacy The old visibility toggles, if any.
+ * @returns A fresh copy of the default buttons with the old visibility applied.
+ */
+function migrateLegacyButtons(legacy: LegacyButtonSettings): ButtonConfig[] {
+  const buttons = structuredClone(DEFAULT_BUTTONS)
+  Object.entries(LEGACY_BUTTON_TOGGLES).forEach(([key, id]) => {
+    const enabled = legacy[key as keyof LegacyButtonSettings]
+    const button = buttons.find((candidate) => candidate.id === id)
+    if (button && enabled !== undefined) {
+      button.enabled = enabled
     }
+  })
+  return buttons
+}
 
-    const {
-      horizontalPadding,
-      verticalPadding,
-      buttonSpacing,
-      animationSpeed,
-    } = this.settings
-
-    const css = `
-			:root {
-				--scroll-control-horizontal-padding: ${horizontalPadding}px;
-				--scroll-control-vertical-padding: ${verticalPadding}px;
-				--scroll-control-button-spacing: ${buttonSpacing}px;
-				--scroll-control-animation-speed: ${animationSpeed}ms;
-			}
+/**
+ * Checks a single stored or imported setting value.
+ */
+type SettingValidator = (value: unknown) => boolean
 
-			/* Ensure the view content area establishes a positioning context */
-			.view-content {
-				position: relative;
-			}
+/**
+ * Checks whether a value is a plain object, as parsed from JSON.
+ * @param value The value to check.
+ * @returns True for objects that aren't arrays or null.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
 
-			/* Remove rules targeting specific scroll containers directly */
-			/* .markdown-source-view .cm-scroller,
-			.markdown-preview-view {
-				position: relative; 
-			} */
+const isBoolean: SettingValidator = (value) => typeof value === 'boolean'
 
-			.scroll-control-button-container {
-				position: absolute;
-				/* Use logical properties for positioning */
-				inset-block-end: var(--scroll-control-vertical-padding);
-				inset-inline-end: var(--scroll-control-horizontal-padding);
-				/* Use a high z-index, leveraging Obsidian's layers if possible */
-				z-index: var(--layer-popover, 100); /* Keep high fallback */
-				/* Always use flex display, visibility controlled by opacity/pointer-events */
-				display: flex;
-				opacity: 0; /* Hidden by default via opacity */
-				pointer-events: none; /* Non-interactive by default */
-				transition: opacity 0.2s ease-in-out; /* Add transition for smoother show/hide */
-				flex-direction: column;
-				gap: var(--scroll-control-button-spacing);
-				align-items: flex-end; /* Align buttons to the right */
-			}
+const isString: SettingValidator = (value) => typeof value === 'string'
 
-			/* Remove the rule relying on .is-active for display */
-			/* .workspace-leaf.is-active .scroll-control-button-container {
-				display: flex;
-			} */
+const isCssColor: SettingValidator = (value) =>
+  typeof value === 'string' && CSS.supports('color', value)
 
-			.scroll-control-button {
-				pointer-events: auto; /* Buttons within container should be clickable */
-				background-color: var(--background-secondary); /* Use secondary background by default */
-				color: var(--text-normal); /* Default icon color */
-				border-radius: 50%;
-				display: flex;
-				align-items: center;
-				justify-content: center;
-				cursor: pointer;
-				box-shadow: 0 2px 5px var(--background-modifier-box-shadow);
-				opacity: 0.7;
-				filter: brightness(1.25); /* Lighten default background more */
-				transition: all 0.2s ease;
-				user-select: none; /* Prevent text selection */
-			}
+const isFiniteNumber: SettingValidator = (value) =>
+  typeof value === 'number' && Number.isFinite(value)
 
-			.scroll-control-button-small {
-				width: 24px;
-				height: 24px;
-				padding: 4px;
-			}
-			.scroll-control-button-small svg {
-				width: 16px; height: 16px;
-			}
+/**
+ * Creates a validator for finite numbers within a range.
+ * @param min Smallest accepted value.
+ * @param max Largest accepted value.
+ * @returns The validator.
+ */
+function isNumberBetween(min: number, max: number): SettingValidator {
+  return (value) =>
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+}
 
-			.scroll-control-button-medium {
-				width: 32px;
-				height: 32px;
-				padding: 8px;
-			}
-			.scroll-control-button-medium svg {
-				width: 20px; height: 20px;
-			}
+/**
+ * Creates a validator for one of a fixed set of strings.
+ * @param options The accepted strings.
+ * @returns The validator.
+ */
+function isOneOf(...options: string[]): SettingValidator {
+  return (value) => typeof value === 'string' && options.includes(value)
+}
 
-			.scroll-control-button-large {
-				width: 40px;
+/**
+ * Checks whether a value is a well-formed scroll target.
+ * @param value The value to check.
+ * @returns True if the value is a ScrollTarget.
+ */
+function isScrollTarget(value: unknown): value is ScrollTarget {
+  if (!isRecord(value)) return false
+  switch (value.type) {
+    case 'top':
+    case 'bottom':
+      return true
+    case 'page':
+      return value.direction === 'up' || value.direction === 'down'
+    case 'percent':
+      return isNumberBetween(0, 100)(value.percent)
+    case 'line':
+      return isNumberBetween(0, Infinity)(value.line)
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks whether a value is a well-formed button action.
+ * @param value The value to check.
+ * @returns True if the value is a ButtonAction.
+ */
+function isButtonAction(value: unknown): value is ButtonAction {
+  if (!isRecord(value)) return false
+  switch (value.type) {
+    case 'scroll':
+      return isScrollTarget(value.target)
+    case 'heading':
+      return value.direction === 'previous' || value.direction === 'next'
+    case 'command':
+      return isString(value.commandId)
+    case 'uri':
+      return isString(value.uri)
+    case 'history':
+      return value.direction === 'back' || value.direction === 'forward'
+    case 'jump-back':
+    case 'toggle-link':
+    case 'auto-scroll':
+    case 'set-mark':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks whether a value is a well-formed button list entry.
+ * @param value The value to check.
+ * @returns True if the value is a ButtonConfig.
+ */
+function isButtonConfig(value: unknown): value is ButtonConfig {
+  return (
+    isRecord(value) &&
+    isString(value.id) &&
+    isBoolean(value.enabled) &&
+    isString(value.icon) &&
+    isString(value.tooltip) &&
+    isButtonAction(value.action) &&
+    (value.longPressAction === undefined ||
+      isButtonAction(value.longPressAction))
+  )
+}
+
+/**
+ * Checks whether a value is a well-formed dragged button position.
+ * @param value The value to check.
+ * @returns True if the value is a ButtonPosition.
+ */
+function isButtonPosition(value: unknown): value is ButtonPosition {
+  return (
+    isRecord(value) &&
+    (value.x === 'left' || value.x === 'right') &&
+    (value.y === 'top' || value.y === 'bottom') &&
+    isNumberBetween(0, Infinity)(value.xOffset) &&
+    isNumberBetween(0, Infinity)(value.yOffset)
+  )
+}
+
+/**
+ * Checks the shape of a stored mark.
+ * @param value The value to check.
+ * @returns True if the value is a ScrollMark.
+ */
+function isScrollMark(value: unknown): value is ScrollMark {
+  return (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    MARK_NAME_PATTERN.test(value.name) &&
+    isNumberBetween(0, Infinity)(value.line) &&
+    isString(value.text) &&
+    (value.blockId === undefined || isString(value.blockId))
+  )
+}
+
+/**
+ * Checks a remembered scroll position.
+ * @param value The value to check.
+ * @returns True if the value is a usable position.
+ */
+function isScrollPosition(value: unknown): value is number {
+  return isNumberBetween(0, Infinity)(value)
+}
+
+/**
+ * Checks that a note's marks are stored as a list. loadSettings checks the
+ * marks themselves one by one.
+ * @param value The value to check.
+ * @returns True if the value is an array.
+ */
+function isArray(value: unknown): value is unknown[] {
+  return Array.isArray(value)
+}
+
+/**
+ * Creates a validator for arrays whose items all pass a check.
+ * @param isItem The check for each item.
+ * @returns The validator.
+ */
+function isArrayOf(isItem: (item: unknown) => boolean): SettingValidator {
+  return (value) => Array.isArray(value) && value.every(isItem)
+}
+
+/**
+ * Checks the shape of a profile. Its overrides are validated one by one by
+ * validateOverrides, so a single bad override doesn't discard the profile.
+ * @param value The value to check.
+ * @returns True if the value looks like a SettingsProfile.
+ */
+function isProfile(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.name) &&
+    isOneOf('folder', 'tag', 'frontmatter')(value.matchType) &&
+    isString(value.match) &&
+    isRecord(value.overrides)
+  )
+}
+
+/**
+ * Validator for each setting. Keeping one per key means new settings can't
+ * be added without deciding what a valid value is.
+ */
+const SETTINGS_SCHEMA: Record<keyof ScrollControlSettings, SettingValidator> = {
+  buttons: isArrayOf(isButtonConfig),
+  buttonSize: isOneOf('small', 'medium', 'large'),
+  buttonColor: isCssColor,
+  buttonColorDark: (value) => value === '' || isCssColor(value),
+  useCustomColor: isBoolean,
+  iconColor: (value) => value === '' || isCssColor(value),
+  buttonOpacity: isFiniteNumber,
+  animationSpeed: isFiniteNumber,
+  useAnimations: isBoolean,
+  scrollEasing: isOneOf(...Object.keys(SCROLL_EASING_LABELS)),
+  respectReducedMotion: isBoolean,
+  invertButtonOrder: isBoolean,
+  buttonSpacing: isFiniteNumber,
+  horizontalPadding: isFiniteNumber,
+  verticalPadding: isFiniteNumber,
+  anchor: isOneOf(...Object.keys(ANCHOR_LABELS)),
+  orientation: isOneOf('vertical', 'horizontal'),
+  pinToTextColumn: isBoolean,
+  draggableButtons: isBoolean,
+  rememberDragPositionPerNote: isBoolean,
+  buttonPosition: (value) => value === null || isButtonPosition(value),
+  syncScrollMode: isOneOf('percent', 'heading', 'line'),
+  syncLinkedTabs: isBoolean,
+  autoScrollSpeed: isFiniteNumber,
+  autoScrollUnit: isOneOf('pixels', 'lines'),
+  rememberScrollPosition: isBoolean,
+  maxRememberedPositions: isFiniteNumber,
+  progressIndicator: isOneOf('none', 'ring', 'bar'),
+  showOverviewRail: isBoolean,
+  useMobileLayout: isBoolean,
+  mobileOverrides: isRecord,
+  longPressActions: isBoolean,
+  edgeSwipeGestures: isBoolean,
+  hideButtonsAtEdges: isBoolean,
+  endOfDocumentAlignment: isOneOf('edge', 'center'),
+  cursorBehavior: isOneOf('keep', 'follow'),
+  autoHideWhenIdle: isBoolean,
+  autoHideDelay: isFiniteNumber,
+  revealOnMouseNear: isBoolean,
+  enabledViewTypes: isArrayOf(isString),
+  profiles: isArrayOf(isProfile),
+}
+
+/** Range of the Vertical Padding slider. */
+const VERTICAL_PADDING_RANGE: [min: number, max: number] = [20, 100]
+
+/** Range of the Mobile Vertical Padding slider, leaving room for toolbars. */
+const MOBILE_VERTICAL_PADDING_RANGE: [min: number, max: number] = [20, 200]
+
+/**
+ * Ranges of the numeric settings, matching the sliders in the settings tab.
+ */
+const SETTING_RANGES: Partial<
+  Record<keyof ScrollControlSettings, [min: number, max: number]>
+> = {
+  buttonOpacity: [10, 100],
+  animationSpeed: [100, 1000],
+  buttonSpacing: [0, 32],
+  horizontalPadding: [0, 100],
+  verticalPadding: VERTICAL_PADDING_RANGE,
+  autoScrollSpeed: [AUTO_SCROLL_MIN_SPEED, AUTO_SCROLL_MAX_SPEED],
+  maxRememberedPositions: [50, 2000],
+  autoHideDelay: [1, 30],
+}
+
+/**
+ * Checks for the items of list settings. Invalid items are dropped one by
+ * one, so a single malformed entry doesn't discard the whole list.
+ */
+const SETTING_ITEMS: Partial<
+  Record<keyof ScrollControlSettings, (item: unknown) => boolean>
+> = {
+  buttons: isButtonConfig,
+  enabledViewTypes: isString,
+  profiles: isProfile,
+}
+
+/** Ranges that differ for the mobile layout's overrides. */
+const MOBILE_SETTING_RANGES: typeof SETTING_RANGES = {
+  ...SETTING_RANGES,
+  verticalPadding: MOBILE_VERTICAL_PADDING_RANGE,
+}
+
+/** Settings holding a CSS color, which may be repaired if malformed. */
+const COLOR_SETTINGS: (keyof ScrollControlSettings)[] = [
+  'buttonColor',
+  'buttonColorDark',
+  'iconColor',
+]
+
+/**
+ * Turns a hand-edited color into the '#rrggbb' form the color picker uses,
+ * e.g. 'FF8800' or ' #f80 '.
+ * @param color The color to repair.
+ * @returns The repaired color, or null if it isn't a hex color at all.
+ */
+function repairHexColor(color: string): string | null {
+  const hex = color.trim().replace(/^#/, '').toLowerCase()
+  if (/^[0-9a-f]{6}$/.test(hex)) return `#${hex}`
+  if (/^[0-9a-f]{3}$/.test(hex)) {
+    return `#${[...hex].map((digit) => digit + digit).join('')}`
+  }
+  return null
+}
+
+/**
+ * Checks one setting against SETTINGS_SCHEMA, repairing what can be
+ * repaired: invalid list items are dropped, numbers are clamped to
+ * SETTING_RANGES and malformed colors are normalized.
+ * @param key The setting.
+ * @param value The stored or imported value.
+ * @param label Prefix for problem reports, e.g. the profile's name.
+ * @param problems Collects a description of each repaired or dropped value.
+ * @param ranges The ranges numbers are clamped to.
+ * @returns The value to use, or undefined to fall back to the default.
+ */
+function sanitizeSetting(
+  key: keyof ScrollControlSettings,
+  value: unknown,
+  label: string,
+  problems: string[],
+  ranges = SETTING_RANGES,
+): unknown {
+  const isItem = SETTING_ITEMS[key]
+  if (isItem && Array.isArray(value)) {
+    const items = value.filter(isItem)
+    const dropped = value.length - items.length
+    if (dropped > 0) {
+      // Nothing usable left; let the default apply
+      if (items.length === 0) {
+        problems.push(`${label}invalid value for "${key}"`)
+        return undefined
+      }
+      problems.push(
+        `${label}dropped ${dropped} invalid ${dropped === 1 ? 'entry' : 'entries'} from "${key}"`,
+      )
+      value = items
+    }
+  }
+
+  if (!SETTINGS_SCHEMA[key](value)) {
+    const color =
+      COLOR_SETTINGS.includes(key) && typeof value === 'string'
+        ? repairHexColor(value)
+        : null
+    if (color) {
+      problems.push(
+        `${label}"${key}" ${JSON.stringify(value)} read as ${color}`,
+      )
+      return color
+    }
+    problems.push(`${label}invalid value for "${key}"`)
+    return undefined
+  }
+
+  const range = ranges[key]
+  if (range && typeof value === 'number') {
+    const clamped = Math.min(Math.max(value, range[0]), range[1])
+    if (clamped !== value) {
+      problems.push(`${label}"${key}" ${value} clamped to ${clamped}`)
+      return clamped
+    }
+  }
+  return value
+}
+
+/**
+ * Keeps the valid settings a profile or the mobile layout may override.
+ * @param overrides The overrides to check.
+ * @param label Where the overrides came from, for problem reports.
+ * @param problems Collects a description of each repaired or dropped key.
+ * @param ranges The ranges numbers are clamped to.
+ * @returns The valid overrides.
+ */
+function validateOverrides(
+  overrides: Record<string, unknown>,
+  label: string,
+  problems: string[],
+  ranges = SETTING_RANGES,
+): ProfileOverrides {
+  const valid: Record<string, unknown> = {}
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (key === 'hideButtons') {
+      if (isBoolean(value)) {
+        valid[key] = value
+      } else {
+        problems.push(`${label}: invalid value for "${key}"`)
+      }
+    } else if (
+      !(key in SETTINGS_SCHEMA) ||
+      (NON_OVERRIDABLE_SETTINGS as readonly string[]).includes(key)
+    ) {
+      problems.push(`${label}: "${key}" can't be overridden`)
+    } else {
+      const sanitized = sanitizeSetting(
+        key as keyof ScrollControlSettings,
+        value,
+        `${label}: `,
+        problems,
+        ranges,
+      )
+      if (sanitized !== undefined) valid[key] = sanitized
+    }
+  })
+  return valid as ProfileOverrides
+}
+
+/**
+ * Checks stored or imported settings against SETTINGS_SCHEMA instead of
+ * trusting them blindly. Out-of-range numbers and malformed colors are
+ * repaired; invalid and unknown keys are dropped (so their defaults apply).
+ * Both are reported.
+ * @param data The settings to check, e.g. parsed from JSON.
+ * @param problems Collects a description of each repaired or dropped key.
+ * @returns The valid settings.
+ */
+function validateSettings(
+  data: unknown,
+  problems: string[],
+): Partial<ScrollControlSettings> {
+  if (!isRecord(data)) {
+    problems.push('Settings must be a JSON object')
+    return {}
+  }
+
+  const valid: Record<string, unknown> = {}
+  Object.entries(data).forEach(([key, value]) => {
+    if (!(key in SETTINGS_SCHEMA)) {
+      problems.push(`unknown setting "${key}"`)
+      return
+    }
+    const sanitized = sanitizeSetting(
+      key as keyof ScrollControlSettings,
+      value,
+      '',
+      problems,
+    )
+    if (sanitized !== undefined) valid[key] = sanitized
+  })
+
+  const settings = valid as Partial<ScrollControlSettings>
+  if (settings.mobileOverrides) {
+    settings.mobileOverrides = validateOverrides(
+      settings.mobileOverrides as Record<string, unknown>,
+      'Mobile layout',
+      problems,
+      MOBILE_SETTING_RANGES,
+    )
+  }
+  settings.profiles?.forEach((profile) => {
+    profile.overrides = validateOverrides(
+      profile.overrides as Record<string, unknown>,
+      `Profile "${profile.name}"`,
+      problems,
+    )
+  })
+  return settings
+}
+
+/**
+ * Keeps the valid entries of stored per-note data, such as remembered
+ * positions, so a corrupt data file can't break restoring or rendering.
+ * @param data The stored map, keyed by file path.
+ * @param isEntry The check for each entry.
+ * @param label What the map holds, for problem reports.
+ * @param problems Collects a description of what was dropped.
+ * @returns The valid entries.
+ */
+function validatePathMap<T>(
+  data: unknown,
+  isEntry: (value: unknown) => value is T,
+  label: string,
+  problems: string[],
+): Record<string, T> {
+  if (data === undefined) return {}
+  if (!isRecord(data)) {
+    problems.push(`invalid ${label}`)
+    return {}
+  }
+
+  const valid: Record<string, T> = {}
+  let dropped = 0
+  Object.entries(data).forEach(([path, value]) => {
+    if (isEntry(value)) {
+      valid[path] = value
+    } else {
+      dropped++
+    }
+  })
+  if (dropped > 0) problems.push(`dropped ${dropped} invalid ${label}`)
+  return valid
+}
+
+/**
+ * Upgrades stored data from one settings version to the next: the function
+ * at index i turns version i into version i + 1. Data saved before settings
+ * were versioned counts as version 0. Add new migrations at the end.
+ */
+const SETTINGS_MIGRATIONS: ((data: ScrollControlData) => void)[] = [
+  // 0 → 1: per-button visibility toggles became the configurable button list
+  (data) => {
+    data.buttons ??= migrateLegacyButtons(data)
+    Object.keys(LEGACY_BUTTON_TOGGLES).forEach((key) => {
+      delete data[key as keyof LegacyButtonSettings]
+    })
+  },
+  // 1 → 2: offer buttons added since the list was saved, disabled, so
+  // existing users can find them in the button editor
+  (data) => {
+    if (!Array.isArray(data.buttons)) return
+    const ids = new Set(
+      data.buttons.filter(isButtonConfig).map((config) => config.id),
+    )
+    DEFAULT_BUTTONS.forEach((button) => {
+      if (!ids.has(button.id)) {
+        data.buttons?.push({ ...structuredClone(button), enabled: false })
+      }
+    })
+  },
+]
+
+/** Current settings version, stored as `settingsVersion`. */
+const SETTINGS_VERSION = SETTINGS_MIGRATIONS.length
+
+/**
+ * Brings stored or imported data up to the current settings version by
+ * running the migrations it hasn't seen yet. Consumes `settingsVersion`.
+ * @param data The data to migrate in place.
+ */
+function migrateSettings(data: ScrollControlData) {
+  const { settingsVersion } = data
+  delete data.settingsVersion
+  const version =
+    typeof settingsVersion === 'number' && settingsVersion >= 0
+      ? settingsVersion
+      : 0
+  SETTINGS_MIGRATIONS.slice(version).forEach((migrate) => migrate(data))
+}
+
+/**
+ * Checks whether a button action only makes sense in Markdown views.
+ * @param action The action to check.
+ * @returns True for heading navigation and line targets.
+ */
+function isMarkdownOnlyAction(action: ButtonAction): boolean {
+  return (
+    action.type === 'heading' ||
+    action.type === 'set-mark' ||
+    (action.type === 'scroll' && action.target.type === 'line')
+  )
+}
+
+/**
+ * Renders a button icon: custom SVG markup is parsed, anything else is
+ * treated as a Lucide icon name.
+ * @param parent The element to render the icon into.
+ * @param icon The icon name or SVG markup.
+ * @param iconColor The stroke color for custom SVGs ('currentColor' to inherit).
+ * @param plugin The plugin instance, used to parse SVG markup.
+ */
+function renderButtonIcon(
+  parent: HTMLElement,
+  icon: string,
+  iconColor: string,
+  plugin: ScrollControlPlugin,
+) {
+  if (icon.trim().startsWith('<svg')) {
+    const svg = plugin.createSVGFromString(icon, iconColor)
+    if (svg) {
+      parent.appendChild(svg)
+    } else {
+      setIcon(parent, DEFAULT_CUSTOM_ICON)
+    }
+  } else {
+    setIcon(parent, icon)
+  }
+}
+
+/**
+ * Strips everything but shapes from parsed SVG markup, in place: elements
+ * not in SVG_ALLOWED_ELEMENTS, event handler attributes, and links, which
+ * could load external resources or run `javascript:` URLs.
+ * @param svg The root element of the parsed markup.
+ */
+function sanitizeSvg(svg: SVGSVGElement) {
+  Array.from(svg.querySelectorAll('*')).forEach((el) => {
+    if (!SVG_ALLOWED_ELEMENTS.includes(el.localName)) el.remove()
+  })
+  const remaining = [svg, ...Array.from(svg.querySelectorAll('*'))]
+  remaining.forEach((el) => {
+    Array.from(el.attributes).forEach(({ name, localName }) => {
+      if (localName.startsWith('on') || localName === 'href') {
+        el.removeAttribute(name)
+      }
+    })
+  })
+}
+
+/**
+ * Returns the CodeMirror view behind a note in editing mode, which knows
+ * the height of every line, rendered or not.
+ * @param view The Markdown view.
+ * @returns The editor view, or null in reading mode.
+ */
+function getEditorView(view: MarkdownView): EditorView | null {
+  if (view.getMode() !== 'source') return null
+  return (view.editor as Editor & { cm?: EditorView }).cm ?? null
+}
+
+/**
+ * Maps a source line to its position on the overview rail, as a fraction
+ * of the note's height. In editing mode lines are measured in pixels, so
+ * tall images, tables and embeds take up their real share of the rail;
+ * reading mode doesn't expose line heights, so lines count equally there.
+ * @param view The Markdown view.
+ * @param line The zero-based source line.
+ * @returns The position between 0 and 1.
+ */
+function getOverviewFraction(view: MarkdownView, line: number): number {
+  const editorView = getEditorView(view)
+  const lastLine = view.editor.lastLine()
+  const clampedLine = Math.min(Math.max(line, 0), lastLine)
+  if (!editorView) return clampedLine / Math.max(lastLine, 1)
+
+  const { scrollDOM } = editorView
+  const block = editorView.lineBlockAt(
+    view.editor.posToOffset({ line: clampedLine, ch: 0 }),
+  )
+  return (getDocumentOffset(editorView) + block.top) / scrollDOM.scrollHeight
+}
+
+/**
+ * Maps a position on the overview rail back to a source line; the inverse
+ * of getOverviewFraction.
+ * @param view The Markdown view.
+ * @param fraction The position between 0 and 1.
+ * @returns The zero-based source line.
+ */
+function getOverviewLine(view: MarkdownView, fraction: number): number {
+  const editorView = getEditorView(view)
+  const lastLine = view.editor.lastLine()
+  const clamped = Math.min(Math.max(fraction, 0), 1)
+  if (!editorView) return Math.round(clamped * lastLine)
+
+  const height =
+    clamped * editorView.scrollDOM.scrollHeight - getDocumentOffset(editorView)
+  const block = editorView.lineBlockAtHeight(Math.max(height, 0))
+  return view.editor.offsetToPos(block.from).line
+}
+
+/**
+ * Returns the visible region of a note on the overview rail, on the same
+ * scale as getOverviewFraction.
+ * @param view The Markdown view.
+ * @param scrollEl The view's scrolling element.
+ * @returns The top and height of the region, as fractions of the note.
+ */
+function getOverviewViewport(
+  view: MarkdownView,
+  scrollEl: HTMLElement,
+): { top: number; height: number } {
+  const height = scrollEl.clientHeight / scrollEl.scrollHeight
+  if (getEditorView(view)) {
+    return { top: scrollEl.scrollTop / scrollEl.scrollHeight, height }
+  }
+  return {
+    top: view.currentMode.getScroll() / Math.max(view.editor.lastLine(), 1),
+    height,
+  }
+}
+
+/**
+ * Measures how far below the top of the editor's scroller the document
+ * starts, i.e. the space taken by the inline title and padding.
+ * @param editorView The CodeMirror view.
+ * @returns The offset in pixels.
+ */
+function getDocumentOffset(editorView: EditorView): number {
+  const { scrollDOM } = editorView
+  return (
+    editorView.documentTop -
+    scrollDOM.getBoundingClientRect().top +
+    scrollDOM.scrollTop
+  )
+}
+
+/**
+ * Checks whether a path is a file or folder path itself or lies inside it.
+ * @param path The path to check.
+ * @param parent The file or folder path.
+ * @returns True if `path` is `parent` or below it.
+ */
+function isPathWithin(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}/`)
+}
+
+/**
+ * Returns the side of the pane an anchor position hugs horizontally.
+ * @param anchor The anchor position.
+ * @returns 'left' or 'right', or null for centered anchors.
+ */
+function getAnchorSide(anchor: ButtonAnchor): 'left' | 'right' | null {
+  if (anchor.endsWith('-left')) return 'left'
+  if (anchor.endsWith('-right')) return 'right'
+  return null
+}
+
+/**
+ * Turns an anchor side, which follows the writing direction like the
+ * container's logical insets, into the physical side of the screen.
+ * @param side 'left' (inline start) or 'right' (inline end).
+ * @param el An element inside the pane, whose direction decides.
+ * @returns The physical side: swapped in right-to-left layouts.
+ */
+function getPhysicalSide(
+  side: 'left' | 'right',
+  el: HTMLElement,
+): 'left' | 'right' {
+  if (getComputedStyle(el).direction !== 'rtl') return side
+  return side === 'left' ? 'right' : 'left'
+}
+
+/**
+ * Finds the visible text column of a Markdown view (the editor or reading
+ * view sizer), which may be narrower than the pane when readable line
+ * length is enabled.
+ * @param root The element to search within.
+ * @returns The text column element, or null if the view has none.
+ */
+function findTextColumn(root: HTMLElement): HTMLElement | null {
+  const columns = root.querySelectorAll<HTMLElement>(
+    '.cm-sizer, .markdown-preview-sizer',
+  )
+  return (
+    Array.from(columns).find((column) => column.offsetParent !== null) ?? null
+  )
+}
+
+/**
+ * Converts a dropped container rectangle into a position relative to the
+ * nearest pane edges, snapping to edges the container was dropped close to.
+ * @param rect The container's bounding rectangle.
+ * @param pane The pane's bounding rectangle.
+ * @returns The position to remember.
+ */
+function toButtonPosition(rect: DOMRect, pane: DOMRect): ButtonPosition {
+  const left = rect.left - pane.left
+  const right = pane.right - rect.right
+  const top = rect.top - pane.top
+  const bottom = pane.bottom - rect.bottom
+  const snap = (offset: number) =>
+    offset < DRAG_SNAP_DISTANCE ? DRAG_SNAP_MARGIN : Math.round(offset)
+
+  return {
+    x: left <= right ? 'left' : 'right',
+    xOffset: snap(Math.min(left, right)),
+    y: top <= bottom ? 'top' : 'bottom',
+    yOffset: snap(Math.min(top, bottom)),
+  }
+}
+
+/**
+ * Where a scroll link should land: a scroll target, or a heading to look
+ * up in the note.
+ */
+type UriTarget = ScrollTarget | { type: 'heading'; heading: string }
+
+/**
+ * Parses the `to` parameter of a scroll link: `top`, `bottom`,
+ * `heading:Foo`, `line:120` (one-based, as shown in the editor) or
+ * `percent:50`.
+ * @param value The parameter value.
+ * @returns The target, or null if the value isn't understood.
+ */
+function parseUriTarget(value: string): UriTarget | null {
+  const [kind = '', ...rest] = value.split(':')
+  // Headings may contain colons themselves
+  const argument = rest.join(':')
+  switch (kind) {
+    case 'top':
+    case 'bottom':
+      return rest.length === 0 ? { type: kind } : null
+    case 'heading':
+      return argument ? { type: 'heading', heading: argument } : null
+    case 'line': {
+      const line = Number(argument)
+      return argument && Number.isInteger(line) && line >= 1
+        ? { type: 'line', line: line - 1 }
+        : null
+    }
+    case 'percent': {
+      const percent = Number(argument)
+      return argument && Number.isFinite(percent)
+        ? { type: 'percent', percent: clampPercent(percent) }
+        : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Checks whether the operating system asks for reduced motion.
+ * @returns True if `prefers-reduced-motion: reduce` matches.
+ */
+function prefersReducedMotion(): boolean {
+  return window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/**
+ * Describes a scroll target for screen reader announcements.
+ * @param target The target scrolled to.
+ * @returns A short description of where the view went.
+ */
+function describeScrollTarget(target: ScrollTarget): string {
+  switch (target.type) {
+    case 'top':
+      return 'Scrolled to top'
+    case 'bottom':
+      return 'Scrolled to bottom'
+    case 'page':
+      return target.direction === 'up'
+        ? 'Scrolled page up'
+        : 'Scrolled page down'
+    case 'percent':
+      return `Scrolled to ${clampPercent(target.percent)}%`
+    case 'line':
+      return `Scrolled to line ${target.line + 1}`
+  }
+}
+
+/**
+ * Measures the line height of an element's text, for converting line-based
+ * speeds to pixels.
+ * @param el The element to measure.
+ * @returns The line height in pixels.
+ */
+function getLineHeight(el: HTMLElement): number {
+  const style = getComputedStyle(el)
+  const lineHeight = parseFloat(style.lineHeight)
+  // 'normal' doesn't parse; browsers use roughly 1.2em for it
+  return Number.isNaN(lineHeight)
+    ? parseFloat(style.fontSize) * 1.2
+    : lineHeight
+}
+
+/**
+ * A color as red, green and blue from 0 to 255 and alpha from 0 to 1.
+ */
+type RGBA = [red: number, green: number, blue: number, alpha: number]
+
+/**
+ * Resolves any CSS color to RGBA by letting the browser compute it, so
+ * named colors, hsl() and theme variables like `var(--interactive-accent)`
+ * all work.
+ * @param color The CSS color.
+ * @returns The color, or null if it isn't a color or can't be resolved.
+ */
+function parseCssColor(color: string): RGBA | null {
+  if (!CSS.supports('color', color)) return null
+  // Resolved inside the body so theme variables apply
+  const probe = document.body.createDiv()
+  probe.style.display = 'none'
+  probe.style.color = color
+  const computed = getComputedStyle(probe).color
+  probe.remove()
+
+  // Computed colors are serialized as rgb() or rgba()
+  const match = /^rgba?\(([^)]+)\)$/.exec(computed)
+  if (!match?.[1]) return null
+  const [red = 0, green = 0, blue = 0, alpha = 1] = match[1]
+    .split(/[\s,/]+/)
+    .filter(Boolean)
+    .map(Number)
+  return [red, green, blue, alpha]
+}
+
+/**
+ * Paints a translucent color over an opaque one.
+ * @param top The translucent color.
+ * @param bottom The opaque color beneath it.
+ * @returns The resulting opaque color.
+ */
+function blendColors(top: RGBA, bottom: RGBA): RGBA {
+  const alpha = top[3]
+  const mix = (index: number) =>
+    (top[index] ?? 0) * alpha + (bottom[index] ?? 0) * (1 - alpha)
+  return [mix(0), mix(1), mix(2), 1]
+}
+
+/**
+ * Calculates the relative luminance of a color as defined by WCAG 2.
+ * @param color The color, assumed opaque.
+ * @returns The luminance, from 0 (black) to 1 (white).
+ */
+function getRelativeLuminance([red, green, blue]: RGBA): number {
+  const linear = (channel: number) => {
+    const value = channel / 255
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4)
+  }
+  return 0.2126 * linear(red) + 0.7152 * linear(green) + 0.0722 * linear(blue)
+}
+
+/**
+ * Calculates the WCAG 2 contrast ratio between two colors.
+ * @param first One color, assumed opaque.
+ * @param second The other color, assumed opaque.
+ * @returns The ratio, from 1 (no contrast) to 21 (black on white).
+ */
+function getContrastRatio(first: RGBA, second: RGBA): number {
+  const [lighter, darker] = [
+    getRelativeLuminance(first),
+    getRelativeLuminance(second),
+  ].sort((a, b) => b - a)
+  return ((lighter ?? 0) + 0.05) / ((darker ?? 0) + 0.05)
+}
+
+/**
+ * Extracts the plain words and quoted phrases of a search query, skipping
+ * operators such as `path:` or `-excluded`.
+ * @param query The query from Obsidian's search view.
+ * @returns The terms to look for, lower-cased.
+ */
+function getSearchTerms(query: string): string[] {
+  return (query.match(/"[^"]+"|\S+/g) ?? [])
+    .filter((term) => !term.startsWith('-') && !/^\w+:/.test(term))
+    .map((term) => term.replace(/^"|"$/g, '').toLowerCase())
+    .filter((term) => term.length > 1)
+}
+
+/**
+ * Returns the ID of the group Obsidian has linked a leaf into, if any.
+ * @param leaf The workspace leaf.
+ * @returns The group ID, or null if the leaf isn't linked.
+ */
+function getLeafGroup(leaf: WorkspaceLeaf): string | null {
+  // Not part of the public API, but set by "Link with tab" and linked views
+  return (leaf as WorkspaceLeaf & { group?: string | null }).group ?? null
+}
+
+/**
+ * Normalizes a tag for comparison: lowercase, without the leading '#'.
+ * @param tag The tag to normalize.
+ * @returns The normalized tag.
+ */
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').toLowerCase()
+}
+
+/**
+ * Returns the path of the file shown in a view, if any.
+ * @param view The view to inspect.
+ * @returns The file path, or null for views without a file.
+ */
+function getViewFilePath(view: View): string | null {
+  return view instanceof FileView ? (view.file?.path ?? null) : null
+}
+
+/**
+ * Adds floating scroll-to-top and scroll-to-bottom buttons to Markdown notes
+ * and any other enabled view type.
+ */
+export default class ScrollControlPlugin extends Plugin {
+  settings: ScrollControlSettings
+  leafButtonContainers = new Map<WorkspaceLeaf, HTMLElement>()
+  styleEl: HTMLStyleElement | null = null
+  /** Public API for other plugins to drive and extend the buttons. */
+  readonly api: ScrollControlApi = this.createApi()
+  /** Buttons other plugins added through the API, keyed by ID. */
+  private apiButtons = new Map<string, ScrollControlButton>()
+  /** Events other plugins can subscribe to through the API. */
+  private apiEvents = new Events()
+  /** Visually hidden live region that announces jumps to screen readers. */
+  private announcerEl: HTMLElement | null = null
+  /** Remembered scroll positions keyed by file path, oldest first. */
+  private scrollPositions: Record<string, number> = {}
+  /** Dragged button positions keyed by file path. */
+  private buttonPositions: Record<string, ButtonPosition> = {}
+  /** Latest observed scroll position of each managed leaf. */
+  private leafScrollSnapshots = new Map<WorkspaceLeaf, ScrollSnapshot>()
+  /** Position each leaf was at before its last top/bottom jump. */
+  private jumpOrigins = new Map<WorkspaceLeaf, ScrollSnapshot>()
+  /** Teardown callbacks for listeners attached to each leaf. */
+  private leafCleanups = new Map<WorkspaceLeaf, () => void>()
+  /** Pending idle fade-out timers for each leaf. */
+  private leafIdleTimers = new Map<WorkspaceLeaf, number>()
+  /** Scroll adapter driving the view of each managed leaf. */
+  private leafAdapters = new Map<WorkspaceLeaf, ScrollAdapter>()
+  /** Effective settings of each managed leaf, after applying profiles. */
+  private leafSettings = new Map<WorkspaceLeaf, ResolvedSettings>()
+  /** Leaves the user linked for synchronized scrolling. */
+  private linkedLeaves = new Set<WorkspaceLeaf>()
+  /** Time until which scroll events of a just-synced leaf are ignored. */
+  private syncEchoes = new Map<WorkspaceLeaf, number>()
+  /** The running auto-scroll, if any. */
+  private autoScroll: AutoScrollState | null = null
+  /** Marks of each note keyed by file path, sorted by name. */
+  private scrollMarks: Record<string, ScrollMark[]> = {}
+  /** Overview rail shown along the edge of each leaf, if enabled. */
+  private leafOverviewRails = new Map<WorkspaceLeaf, HTMLElement>()
+  /** In-note scroll history of each leaf. */
+  private scrollHistories = new Map<WorkspaceLeaf, ScrollHistory>()
+  /** Pixel offset each leaf last came to rest at, for spotting long scrolls. */
+  private leafSettledTops = new Map<WorkspaceLeaf, number>()
+
+  constructor(app: App, manifest: PluginManifest) {
+    super(app, manifest)
+    this.settings = DEFAULT_SETTINGS
+  }
+
+  /**
+   * Plugin load lifecycle method. Loads settings, adds commands, settings tab,
+   * injects styles, and initializes buttons for existing and future enabled views.
+   */
+  override async onload() {
+    await this.loadSettings()
+
+    // Register commands
+    this.addCommand({
+      id: 'scroll-to-top',
+      name: 'Scroll to Top',
+      callback: () =>
+        this.scrollToPosition({ type: 'top' }, this.getActiveScrollAdapter()),
+    })
+
+    this.addCommand({
+      id: 'scroll-to-bottom',
+      name: 'Scroll to Bottom',
+      callback: () =>
+        this.scrollToPosition(
+          { type: 'bottom' },
+          this.getActiveScrollAdapter(),
+        ),
+    })
+
+    this.addCommand({
+      id: 'select-to-top',
+      name: 'Extend Selection to Top',
+      checkCallback: (checking) =>
+        this.selectToEdge('top', this.getActiveScrollAdapter(), checking),
+    })
+
+    this.addCommand({
+      id: 'select-to-bottom',
+      name: 'Extend Selection to Bottom',
+      checkCallback: (checking) =>
+        this.selectToEdge('bottom', this.getActiveScrollAdapter(), checking),
+    })
+
+    this.addCommand({
+      id: 'scroll-to-previous-heading',
+      name: 'Scroll to Previous Heading',
+      callback: () =>
+        this.scrollToHeading('previous', this.getActiveScrollAdapter()),
+    })
+
+    this.addCommand({
+      id: 'scroll-to-next-heading',
+      name: 'Scroll to Next Heading',
+      callback: () =>
+        this.scrollToHeading('next', this.getActiveScrollAdapter()),
+    })
+
+    this.addCommand({
+      id: 'scroll-page-up',
+      name: 'Scroll Up One Page',
+      callback: () =>
+        this.scrollToPosition(
+          { type: 'page', direction: 'up' },
+          this.getActiveScrollAdapter(),
+        ),
+    })
+
+    this.addCommand({
+      id: 'scroll-page-down',
+      name: 'Scroll Down One Page',
+      callback: () =>
+        this.scrollToPosition(
+          { type: 'page', direction: 'down' },
+          this.getActiveScrollAdapter(),
+        ),
+    })
+
+    this.addCommand({
+      id: 'scroll-to-percent',
+      name: 'Scroll to Percentage…',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (!adapter) return false
+        if (!checking) {
+          new NumberPromptModal(this.app, {
+            title: 'Scroll to percentage',
+            placeholder: '0–100',
+            min: 0,
+            max: 100,
+            onSubmit: (percent) =>
+              this.scrollToPosition({ type: 'percent', percent }, adapter),
+          }).open()
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'scroll-to-line',
+      name: 'Scroll to Line…',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (!(adapter?.view instanceof MarkdownView)) return false
+        if (!checking) {
+          new NumberPromptModal(this.app, {
+            title: 'Scroll to line',
+            placeholder: `1–${adapter.view.editor.lineCount()}`,
+            min: 1,
+            max: adapter.view.editor.lineCount(),
+            // Lines are shown 1-based but scrolled to 0-based
+            onSubmit: (line) =>
+              this.scrollToPosition({ type: 'line', line: line - 1 }, adapter),
+          }).open()
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'jump-back',
+      name: 'Jump Back to Where I Was',
+      callback: () => this.jumpBack(this.getActiveScrollAdapter()),
+    })
+
+    this.addCommand({
+      id: 'toggle-scroll-sync',
+      name: 'Link/Unlink Pane for Synchronized Scrolling',
+      checkCallback: (checking) => {
+        const leaf = this.app.workspace.activeLeaf
+        if (!leaf || !this.leafAdapters.has(leaf)) return false
+        if (!checking) {
+          this.toggleLeafLink(leaf)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'scroll-history-back',
+      name: 'Scroll Back',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (
+          !adapter ||
+          !this.scrollHistories.get(adapter.view.leaf)?.back.length
+        ) {
+          return false
+        }
+        if (!checking) {
+          this.navigateHistory('back', adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'scroll-history-forward',
+      name: 'Scroll Forward',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (
+          !adapter ||
+          !this.scrollHistories.get(adapter.view.leaf)?.forward.length
+        ) {
+          return false
+        }
+        if (!checking) {
+          this.navigateHistory('forward', adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'set-mark',
+      name: 'Set Mark…',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (!(adapter?.view instanceof MarkdownView)) return false
+        if (!checking) {
+          this.promptForMark('set', adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'jump-to-mark',
+      name: 'Jump to Mark…',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        const path = adapter && getViewFilePath(adapter.view)
+        if (!path || !this.scrollMarks[path]?.length) return false
+        if (!checking) {
+          this.promptForMark('jump', adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'delete-mark',
+      name: 'Delete Mark…',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        const path = adapter && getViewFilePath(adapter.view)
+        if (!path || !this.scrollMarks[path]?.length) return false
+        if (!checking) {
+          this.promptForMark('delete', adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'toggle-auto-scroll',
+      name: 'Start/Stop Auto-Scroll',
+      checkCallback: (checking) => {
+        const adapter = this.getActiveScrollAdapter()
+        if (!adapter?.getScrollElement()) return false
+        if (!checking) {
+          this.toggleAutoScroll(adapter)
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'auto-scroll-faster',
+      name: 'Increase Auto-Scroll Speed',
+      callback: () => this.changeAutoScrollSpeed(AUTO_SCROLL_SPEED_STEP),
+    })
+
+    this.addCommand({
+      id: 'auto-scroll-slower',
+      name: 'Decrease Auto-Scroll Speed',
+      callback: () => this.changeAutoScrollSpeed(1 / AUTO_SCROLL_SPEED_STEP),
+    })
+
+    this.addCommand({
+      id: 'focus-buttons',
+      name: 'Focus Scroll Buttons',
+      checkCallback: (checking) => {
+        const leaf = this.app.workspace.activeLeaf
+        if (!leaf) return false
+        const button = this.leafButtonContainers
+          .get(leaf)
+          ?.querySelector<HTMLElement>(
+            '.scroll-control-button:not(.scroll-control-button-concealed)',
+          )
+        if (!button) return false
+        if (!checking) {
+          // Tab onward from here; Escape returns to the note
+          this.resetIdleTimer(leaf)
+          button.focus()
+        }
+        return true
+      },
+    })
+
+    this.addCommand({
+      id: 'reset-button-position',
+      name: 'Reset Button Position',
+      checkCallback: (checking) => {
+        const leaf = this.app.workspace.activeLeaf
+        if (!leaf || !this.getButtonPosition(leaf)) return false
+        if (!checking) {
+          this.saveButtonPosition(leaf, null)
+        }
+        return true
+      },
+    })
+
+    // obsidian://scroll-control?file=...&to=... links
+    this.registerObsidianProtocolHandler(URI_ACTION, this.handleScrollUri)
+
+    // Add settings tab
+    this.addSettingTab(new ScrollControlSettingTab(this.app, this))
+
+    // Inject Stylesheet
+    this.addStyle()
+
+    // Screen readers are told where jumps land through a live region
+    this.announcerEl = document.body.createDiv({
+      cls: 'scroll-control-announcer',
+      attr: { role: 'status', 'aria-live': 'polite' },
+    })
+
+    // Add buttons to existing leaves and listen for layout changes
+    this.app.workspace.onLayoutReady(() => {
+      this.initializeAllButtons()
+      this.registerEvent(
+        this.app.workspace.on('layout-change', this.handleLayoutChange),
+      )
+      // Listen for active leaf changes to update visibility
+      this.registerEvent(
+        this.app.workspace.on(
+          'active-leaf-change',
+          this.handleActiveLeafChange,
+        ),
+      )
+      // Restore remembered scroll positions when notes are opened
+      this.registerEvent(
+        this.app.workspace.on('file-open', this.handleFileOpen),
+      )
+      // Re-resolve profiles when a note's tags or frontmatter change
+      this.registerEvent(
+        this.app.metadataCache.on('changed', this.handleMetadataChange),
+      )
+      // Light and dark mode can use different button colors
+      this.registerEvent(
+        this.app.workspace.on('css-change', () => this.refreshAllButtons()),
+      )
+      // Keep remembered positions in sync with the vault
+      this.registerEvent(this.app.vault.on('delete', this.handleFileDelete))
+      this.registerEvent(this.app.vault.on('rename', this.handleFileRename))
+      this.pruneStoredPaths()
+    })
+  }
+
+  override onunload() {
+    this.stopAutoScroll()
+    // Persist the positions of all open notes before tearing down
+    this.leafScrollSnapshots.forEach((_, leaf) =>
+      this.recordScrollPosition(leaf),
+    )
+    void this.savePluginData()
+    // Remove all button containers, overview rails, timers and listeners
+    new Set([
+      ...this.leafButtonContainers.keys(),
+      ...this.leafOverviewRails.keys(),
+      ...this.leafCleanups.keys(),
+    ]).forEach((leaf) => this.removeButtonsFromLeaf(leaf))
+    // Remove stylesheet
+    this.styleEl?.remove()
+    this.styleEl = null
+    this.announcerEl?.remove()
+    this.announcerEl = null
+  }
+
+  /**
+   * Retrieves the scroll adapter of the currently active workspace leaf.
+   * @returns The adapter, or null if the active leaf has no scroll buttons.
+   */
+  private getActiveScrollAdapter(): ScrollAdapter | null {
+    const leaf = this.app.workspace.activeLeaf
+    return (leaf && this.leafAdapters.get(leaf)) ?? null
+  }
+
+  /**
+   * Retrieves the scroll adapter for a leaf's current view. Adapters are
+   * registered on layout changes, which lag behind opening a file, so one
+   * is created when the leaf has none yet or its view was replaced.
+   * @param leaf The workspace leaf.
+   * @returns The adapter, or null if the view can't be scrolled.
+   */
+  private getLeafScrollAdapter(leaf: WorkspaceLeaf): ScrollAdapter | null {
+    const adapter = this.leafAdapters.get(leaf)
+    if (adapter?.view === leaf.view) return adapter
+    return createScrollAdapter(leaf.view)
+  }
+
+  /**
+   * Returns the effective settings of a leaf, falling back to the global
+   * settings for leaves that aren't managed.
+   * @param leaf The workspace leaf to look up.
+   * @returns The settings after applying matching profiles.
+   */
+  private getLeafSettings(leaf: WorkspaceLeaf): ResolvedSettings {
+    return (
+      this.leafSettings.get(leaf) ?? { ...this.settings, hideButtons: false }
+    )
+  }
+
+  /**
+   * Resolves the settings for a file by applying every matching profile, in
+   * order, over the global settings. A `scroll-control: hidden` frontmatter
+   * entry always hides the buttons.
+   * @param file The file shown in the leaf, or null.
+   * @returns The effective settings.
+   */
+  private resolveSettings(file: TFile | null): ResolvedSettings {
+    const resolved: ResolvedSettings = { ...this.settings, hideButtons: false }
+    // The mobile layout replaces the desktop one; profiles still apply on top
+    if (Platform.isMobile && this.settings.useMobileLayout) {
+      Object.assign(resolved, this.settings.mobileOverrides)
+    }
+    if (!file) return resolved
+
+    const cache = this.app.metadataCache.getFileCache(file)
+    const tags = (cache ? (getAllTags(cache) ?? []) : []).map(normalizeTag)
+    const frontmatterValue: unknown = cache?.frontmatter?.[FRONTMATTER_KEY]
+
+    this.settings.profiles.forEach((profile) => {
+      // A profile that was just added and not filled in matches nothing
+      if (profile.match.trim() === '') return
+
+      let matches = false
+      switch (profile.matchType) {
+        case 'folder': {
+          const folder = profile.match.replace(/^\/+|\/+$/g, '')
+          matches = folder !== '' && file.path.startsWith(`${folder}/`)
+          break
+        }
+        case 'tag': {
+          // Nested tags match their parents, e.g. #log/daily matches #log
+          const tag = normalizeTag(profile.match)
+          matches = tags.some((t) => t === tag || t.startsWith(`${tag}/`))
+          break
+        }
+        case 'frontmatter':
+          matches = frontmatterValue === profile.match
+          break
+      }
+      if (matches) {
+        Object.assign(resolved, profile.overrides)
+      }
+    })
+
+    if (frontmatterValue === 'hidden') {
+      resolved.hideButtons = true
+    }
+    return resolved
+  }
+
+  /**
+   * Re-resolves a leaf's settings and rebuilds its buttons if they changed,
+   * e.g. after the leaf switched to another file.
+   * @param leaf The workspace leaf to refresh.
+   */
+  private refreshLeafSettings(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    const adapter = this.leafAdapters.get(leaf)
+    if (!container || !adapter) return
+
+    const file = adapter.view instanceof FileView ? adapter.view.file : null
+    const resolved = this.resolveSettings(file)
+    if (
+      JSON.stringify(resolved) === JSON.stringify(this.leafSettings.get(leaf))
+    ) {
+      return
+    }
+
+    this.leafSettings.set(leaf, resolved)
+    this.applyContainerSettings(container, resolved)
+    this.createFloatingButtons(container, adapter)
+    this.updateColumnInset(leaf)
+    this.applyButtonPosition(leaf)
+    this.renderOverviewRail(leaf)
+    this.updateScrollState(leaf)
+    this.resetIdleTimer(leaf)
+  }
+
+  /**
+   * Applies leaf-specific layout settings to a button container by
+   * overriding the global CSS variables on it.
+   * @param container The button container.
+   * @param settings The leaf's effective settings.
+   */
+  private applyContainerSettings(
+    container: HTMLElement,
+    settings: ResolvedSettings,
+  ) {
+    container.style.setProperty(
+      '--scroll-control-horizontal-padding',
+      `${settings.horizontalPadding}px`,
+    )
+    container.style.setProperty(
+      '--scroll-control-vertical-padding',
+      `${settings.verticalPadding}px`,
+    )
+    container.style.setProperty(
+      '--scroll-control-button-spacing',
+      `${settings.buttonSpacing}px`,
+    )
+    container.style.setProperty(
+      '--scroll-control-animation-speed',
+      `${settings.animationSpeed}ms`,
+    )
+    container.style.setProperty(
+      '--scroll-control-button-opacity',
+      `${settings.buttonOpacity / 100}`,
+    )
+    Object.keys(ANCHOR_LABELS).forEach((anchor) => {
+      container.toggleClass(
+        `scroll-control-anchor-${anchor}`,
+        anchor === settings.anchor,
+      )
+    })
+    container.toggleClass(
+      'scroll-control-horizontal',
+      settings.orientation === 'horizontal',
+    )
+    container.toggleClass('scroll-control-draggable', settings.draggableButtons)
+    container.toggleClass('scroll-control-touch', Platform.isMobile)
+    container.toggleClass(
+      'scroll-control-reduced-motion',
+      !this.shouldAnimate(settings),
+    )
+    // Room below the end of the document to center it
+    container.parentElement?.toggleClass(
+      'scroll-control-center-end',
+      settings.endOfDocumentAlignment === 'center',
+    )
+    container.setAttribute(
+      'aria-orientation',
+      settings.orientation === 'horizontal' ? 'horizontal' : 'vertical',
+    )
+    container.toggleClass('scroll-control-profile-hidden', settings.hideButtons)
+  }
+
+  /**
+   * Places a leaf's button container beside the text column instead of at
+   * the pane edge when pinning is enabled, by measuring the margin next to
+   * the column on the anchored side. Views without a text column (and
+   * centered anchors) keep the plain pane padding.
+   * @param leaf The workspace leaf whose container should be placed.
+   */
+  private updateColumnInset(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    const viewContent = container?.parentElement
+    if (!container || !viewContent) return
+
+    const settings = this.getLeafSettings(leaf)
+    const side = getAnchorSide(settings.anchor)
+    const column =
+      settings.pinToTextColumn && side ? findTextColumn(viewContent) : null
+    if (!column || !side) {
+      container.style.removeProperty('--scroll-control-pinned-inset')
+      return
+    }
+
+    const paneRect = viewContent.getBoundingClientRect()
+    const columnRect = column.getBoundingClientRect()
+    const margin =
+      getPhysicalSide(side, viewContent) === 'right'
+        ? paneRect.right - columnRect.right
+        : columnRect.left - paneRect.left
+
+    // Sit just outside the column, but never closer to the edge than usual
+    const inset = Math.max(
+      settings.horizontalPadding,
+      margin - settings.horizontalPadding - container.offsetWidth,
+    )
+    container.style.setProperty('--scroll-control-pinned-inset', `${inset}px`)
+  }
+
+  /**
+   * Returns where a leaf's buttons were dragged to, either for the note it
+   * shows or for all notes, depending on the settings.
+   * @param leaf The workspace leaf to look up.
+   * @returns The dragged position, or null to use the anchor position.
+   */
+  private getButtonPosition(leaf: WorkspaceLeaf): ButtonPosition | null {
+    const settings = this.getLeafSettings(leaf)
+    if (!settings.draggableButtons) return null
+    if (!settings.rememberDragPositionPerNote) {
+      return this.settings.buttonPosition
+    }
+
+    const adapter = this.leafAdapters.get(leaf)
+    const path = adapter ? getViewFilePath(adapter.view) : null
+    if (!path) return null
+    return this.buttonPositions[path] ?? null
+  }
+
+  /**
+   * Moves a leaf's button container to its dragged position, or back to
+   * its anchor position if it has none.
+   * @param leaf The workspace leaf whose container should be placed.
+   */
+  private applyButtonPosition(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    if (!container) return
+
+    const position = this.getButtonPosition(leaf)
+    container.toggleClass('scroll-control-dragged', position !== null)
+    const offsets = new Map<string, number>()
+    if (position) {
+      offsets.set(position.x, position.xOffset)
+      offsets.set(position.y, position.yOffset)
+    }
+    for (const edge of ['left', 'right', 'top', 'bottom']) {
+      const offset = offsets.get(edge)
+      if (offset === undefined) {
+        container.style.removeProperty(`--scroll-control-drag-${edge}`)
+      } else {
+        container.style.setProperty(
+          `--scroll-control-drag-${edge}`,
+          `${offset}px`,
+        )
+      }
+    }
+  }
+
+  /**
+   * Remembers (or, given null, forgets) where a leaf's buttons were dragged
+   * to and moves the buttons of every leaf sharing that position.
+   * @param leaf The workspace leaf whose buttons were moved.
+   * @param position The new position, or null to reset to the anchor.
+   */
+  private saveButtonPosition(
+    leaf: WorkspaceLeaf,
+    position: ButtonPosition | null,
+  ) {
+    const adapter = this.leafAdapters.get(leaf)
+    const path = adapter ? getViewFilePath(adapter.view) : null
+
+    if (!this.getLeafSettings(leaf).rememberDragPositionPerNote) {
+      this.settings.buttonPosition = position
+    } else if (path && position) {
+      this.buttonPositions[path] = position
+    } else if (path) {
+      delete this.buttonPositions[path]
+    }
+
+    this.requestSavePositions()
+    this.leafButtonContainers.forEach((_, otherLeaf) =>
+      this.applyButtonPosition(otherLeaf),
+    )
+  }
+
+  /**
+   * Forgets every dragged button position, global and per note, moving all
+   * buttons back to their anchor position.
+   */
+  async resetAllButtonPositions() {
+    this.settings.buttonPosition = null
+    this.buttonPositions = {}
+    await this.saveSettings()
+  }
+
+  /**
+   * Lets the user jump to the top or bottom of a leaf's view by swiping
+   * vertically along the pane edge on the buttons' side. Swiping up goes to
+   * the bottom and swiping down to the top, matching the direction the
+   * content moves.
+   * @param leaf The workspace leaf to handle swipes for.
+   * @param viewContent The pane element to listen on.
+   * @returns A function that removes the swipe listeners.
+   */
+  private addEdgeSwipe(
+    leaf: WorkspaceLeaf,
+    viewContent: HTMLElement,
+  ): () => void {
+    let swipeStart: { x: number; y: number; time: number } | null = null
+
+    const handleTouchStart = (event: TouchEvent) => {
+      swipeStart = null
+      const settings = this.getLeafSettings(leaf)
+      const touch = event.touches[0]
+      if (!settings.edgeSwipeGestures || !touch || event.touches.length > 1) {
+        return
+      }
+
+      // The edge the buttons are on, which swaps sides in RTL layouts
+      const pane = viewContent.getBoundingClientRect()
+      const side = getAnchorSide(settings.anchor) ?? 'right'
+      const distanceFromEdge =
+        getPhysicalSide(side, viewContent) === 'left'
+          ? touch.clientX - pane.left
+          : pane.right - touch.clientX
+      if (distanceFromEdge <= EDGE_SWIPE_ZONE) {
+        swipeStart = { x: touch.clientX, y: touch.clientY, time: Date.now() }
+      }
+    }
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      const touch = event.changedTouches[0]
+      if (!swipeStart || !touch) return
+
+      const dx = touch.clientX - swipeStart.x
+      const dy = touch.clientY - swipeStart.y
+      const quick = Date.now() - swipeStart.time <= EDGE_SWIPE_DURATION
+      swipeStart = null
+      // Mostly vertical, long enough and quick enough to be deliberate
+      if (
+        quick &&
+        Math.abs(dy) >= EDGE_SWIPE_DISTANCE &&
+        Math.abs(dx) < Math.abs(dy) / 2
+      ) {
+        this.scrollToPosition(
+          { type: dy < 0 ? 'bottom' : 'top' },
+          this.leafAdapters.get(leaf) ?? null,
+        )
+      }
+    }
+
+    viewContent.addEventListener('touchstart', handleTouchStart, {
+      passive: true,
+    })
+    viewContent.addEventListener('touchend', handleTouchEnd, { passive: true })
+    return () => {
+      viewContent.removeEventListener('touchstart', handleTouchStart)
+      viewContent.removeEventListener('touchend', handleTouchEnd)
+    }
+  }
+
+  /**
+   * Lets the user drag a leaf's button container around its pane. A press
+   * only becomes a drag after the pointer moves a few pixels, so plain
+   * clicks still trigger the buttons.
+   * @param leaf The workspace leaf the container belongs to.
+   * @param container The button container.
+   * @param viewContent The pane element the container is positioned in.
+   * @returns A function that removes the drag listeners.
+   */
+  private makeDraggable(
+    leaf: WorkspaceLeaf,
+    container: HTMLElement,
+    viewContent: HTMLElement,
+  ): () => void {
+    const doc = container.ownerDocument
+    let suppressClick = false
+    let endDrag: (() => void) | null = null
+
+    const handlePointerDown = (downEvent: PointerEvent) => {
+      if (downEvent.button !== 0) return
+      if (!this.getLeafSettings(leaf).draggableButtons) return
+
+      const pane = viewContent.getBoundingClientRect()
+      const start = container.getBoundingClientRect()
+      let dragging = false
+
+      const handlePointerMove = (event: PointerEvent) => {
+        const dx = event.clientX - downEvent.clientX
+        const dy = event.clientY - downEvent.clientY
+        if (!dragging) {
+          if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+          dragging = true
+          container.addClass('scroll-control-dragging')
+        }
+
+        // Follow the pointer, keeping the buttons inside the pane
+        const left = Math.min(
+          Math.max(start.left - pane.left + dx, 0),
+          pane.width - start.width,
+        )
+        const top = Math.min(
+          Math.max(start.top - pane.top + dy, 0),
+          pane.height - start.height,
+        )
+        container.addClass('scroll-control-dragged')
+        container.style.setProperty('--scroll-control-drag-left', `${left}px`)
+        container.style.setProperty('--scroll-control-drag-top', `${top}px`)
+        container.style.removeProperty('--scroll-control-drag-right')
+        container.style.removeProperty('--scroll-control-drag-bottom')
+      }
+
+      const handlePointerUp = () => {
+        endDrag?.()
+        if (!dragging) return
+
+        // The click that follows the drop shouldn't trigger a button
+        suppressClick = true
+        window.setTimeout(() => (suppressClick = false), 0)
+        container.removeClass('scroll-control-dragging')
+        this.saveButtonPosition(
+          leaf,
+          toButtonPosition(
+            container.getBoundingClientRect(),
+            viewContent.getBoundingClientRect(),
+          ),
+        )
+      }
+
+      endDrag = () => {
+        doc.removeEventListener('pointermove', handlePointerMove)
+        doc.removeEventListener('pointerup', handlePointerUp)
+        doc.removeEventListener('pointercancel', handlePointerUp)
+        endDrag = null
+      }
+      doc.addEventListener('pointermove', handlePointerMove)
+      doc.addEventListener('pointerup', handlePointerUp)
+      doc.addEventListener('pointercancel', handlePointerUp)
+    }
+
+    const handleClick = (event: MouseEvent) => {
+      if (suppressClick) {
+        event.stopPropagation()
+        suppressClick = false
+      }
+    }
+
+    container.addEventListener('pointerdown', handlePointerDown)
+    container.addEventListener('click', handleClick, { capture: true })
+    return () => {
+      endDrag?.()
+      container.removeEventListener('pointerdown', handlePointerDown)
+      container.removeEventListener('click', handleClick, { capture: true })
+    }
+  }
+
+  /**
+   * Handler for the metadata cache 'changed' event. Re-resolves profiles
+   * for leaves showing the changed file, since tags or frontmatter may
+   * differ, and moves its marks to where their lines ended up.
+   * @param file The file whose metadata changed.
+   */
+  private handleMetadataChange = (file: TFile) => {
+    this.leafAdapters.forEach((adapter, leaf) => {
+      if (getViewFilePath(adapter.view) === file.path) {
+        this.refreshLeafSettings(leaf)
+        this.renderOverviewRail(leaf)
+      }
+    })
+    this.refreshMarkRails(file.path)
+  }
+
+  /**
+   * Checks whether a leaf shows a view type the user has enabled.
+   * @param leaf The workspace leaf to check.
+   * @returns True if the leaf should get scroll buttons.
+   */
+  private isLeafEnabled(leaf: WorkspaceLeaf): boolean {
+    return this.settings.enabledViewTypes.includes(leaf.view.getViewType())
+  }
+
+  /**
+   * Loads plugin settings from storage, merging with defaults.
+   * Remembered scroll positions are stored alongside the settings.
+   */
+  async loadSettings() {
+    const data = ((await this.loadData()) as ScrollControlData | null) ?? {}
+    migrateSettings(data)
+    const { scrollPositions, buttonPositions, scrollMarks, ...settings } = data
+
+    const problems: string[] = []
+    this.settings = {
+      // A fresh copy so editing the settings never mutates the defaults
+      ...structuredClone(DEFAULT_SETTINGS),
+      ...validateSettings(settings, problems),
+    }
+    this.scrollPositions = validatePathMap(
+      scrollPositions,
+      isScrollPosition,
+      'remembered scroll positions',
+      problems,
+    )
+    this.buttonPositions = validatePathMap(
+      buttonPositions,
+      isButtonPosition,
+      'button positions',
+      problems,
+    )
+    this.scrollMarks = {}
+    let droppedMarks = 0
+    Object.entries(
+      validatePathMap(scrollMarks, isArray, 'mark lists', problems),
+    ).forEach(([path, marks]) => {
+      const valid = marks.filter(isScrollMark)
+      droppedMarks += marks.length - valid.length
+      if (valid.length > 0) this.scrollMarks[path] = valid
+    })
+    if (droppedMarks > 0) problems.push(`dropped ${droppedMarks} invalid marks`)
+
+    if (problems.length > 0) {
+      new Notice(
+        `Scroll Control: repaired invalid saved settings:\n${problems.join('\n')}`,
+      )
+    }
+  }
+
+  /**
+   * Serializes the settings for sharing with other vaults. Remembered
+   * positions and marks are specific to this vault and aren't included.
+   * @returns The settings as formatted JSON.
+   */
+  exportSettings(): string {
+    const data: ScrollControlData = {
+      settingsVersion: SETTINGS_VERSION,
+      ...this.settings,
+    }
+    return JSON.stringify(data, null, 2)
+  }
+
+  /**
+   * Replaces the settings with imported ones. Settings missing from the
+   * import are reset to their defaults; invalid or unknown ones are
+   * skipped.
+   * @param data The imported settings, parsed from JSON.
+   * @returns A description of each skipped setting.
+   * @throws If the data contains no valid settings at all.
+   */
+  async importSettings(data: unknown): Promise<string[]> {
+    // Exports from older versions are upgraded like stored settings
+    if (isRecord(data)) {
+      migrateSettings(data as ScrollControlData)
+    }
+    const problems: string[] = []
+    const settings = validateSettings(data, problems)
+    // Nothing usable, e.g. not a settings object; keep the current settings
+    if (Object.keys(settings).length === 0) {
+      throw new Error(problems[0] ?? 'No settings found')
+    }
+    this.settings = { ...structuredClone(DEFAULT_SETTINGS), ...settings }
+    await this.saveSettings()
+    return problems
+  }
+
+  /**
+   * Applies a preset on top of the current settings.
+   * @param preset The preset to apply.
+   */
+  async applyPreset(preset: SettingsPreset) {
+    const { mobileOverrides, ...settings } = structuredClone(preset.settings)
+    Object.assign(this.settings, settings)
+    // Keep mobile overrides the preset doesn't mention, e.g. the padding
+    if (mobileOverrides) {
+      this.settings.mobileOverrides = {
+        ...this.settings.mobileOverrides,
+        ...mobileOverrides,
+      }
+    }
+    if (preset.enabledButtons) {
+      this.settings.buttons = presetButtons(
+        this.settings.buttons,
+        preset.enabledButtons,
+      )
+    }
+    await this.saveSettings()
+  }
+
+  /**
+   * Writes settings, remembered scroll and button positions, and marks to
+   * storage.
+   */
+  private async savePluginData() {
+    const data: ScrollControlData = {
+      settingsVersion: SETTINGS_VERSION,
+      ...this.settings,
+      scrollPositions: this.scrollPositions,
+      buttonPositions: this.buttonPositions,
+      scrollMarks: this.scrollMarks,
+    }
+    await this.saveData(data)
+  }
+
+  /**
+   * Debounced save used for frequent scroll position updates.
+   */
+  private requestSavePositions = debounce(
+    () => void this.savePluginData(),
+    2000,
+    true,
+  )
+
+  /**
+   * Saves current plugin settings to storage and updates buttons and styles.
+   */
+  async saveSettings() {
+    await this.savePluginData()
+    // Re-initialize buttons in all leaves to reflect settings changes
+    this.updateAllButtons()
+    // Update styles if necessary (e.g., padding, spacing)
+    this.updateStyle()
+  }
+
+  /**
+   * Helper to iterate over all currently open leaves of enabled view types.
+   * @param callback Function to execute for each enabled leaf.
+   */
+  private forAllEnabledLeaves(callback: (leaf: WorkspaceLeaf) => void) {
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (this.isLeafEnabled(leaf)) {
+        callback(leaf)
+      }
+    })
+  }
+
+  /**
+   * Creates button containers for all currently open enabled leaves.
+   */
+  private initializeAllButtons() {
+    this.forAllEnabledLeaves((leaf) => {
+      this.addButtonsToLeaf(leaf)
+    })
+  }
+
+  /**
+   * Removes all buttons and re-adds them to the enabled leaves.
+   * Used after settings changes that affect button appearance, layout
+   * or which view types are enabled.
+   */
+  private updateAllButtons() {
+    // Remove old ones first, including leaves whose type was just disabled
+    Array.from(this.leafButtonContainers.keys()).forEach((leaf) =>
+      this.removeButtonsFromLeaf(leaf),
+    )
+    this.initializeAllButtons() // Add new ones with updated settings
+  }
+
+  /**
+   * Debounced handler for Obsidian's 'layout-change' event.
+   * Detects newly opened or closed enabled leaves, and leaves whose view was
+   * replaced, and adds/removes buttons accordingly.
+   */
+  private handleLayoutChange = debounce(
+    () => {
+      const currentLeaves = new Set<WorkspaceLeaf>()
+      this.forAllEnabledLeaves((leaf) => currentLeaves.add(leaf))
+      const knownLeaves = new Set(this.leafButtonContainers.keys())
+
+      // Remove buttons from closed leaves, remembering where they were
+      knownLeaves.forEach((leaf) => {
+        const viewReplaced = this.leafAdapters.get(leaf)?.view !== leaf.view
+        if (!currentLeaves.has(leaf)) {
+          this.linkedLeaves.delete(leaf)
+          this.scrollHistories.delete(leaf)
+        }
+        if (!currentLeaves.has(leaf) || viewReplaced) {
+          this.recordScrollPosition(leaf)
+          this.removeButtonsFromLeaf(leaf)
+        } else {
+          // Switching between reading and editing mode changes the scroller
+          this.updateScrollState(leaf)
+          this.updateColumnInset(leaf)
+          this.renderOverviewRail(leaf)
+        }
+      })
+
+      // Add buttons to new leaves (and leaves whose view was replaced)
+      currentLeaves.forEach((leaf) => {
+        if (!this.leafButtonContainers.has(leaf)) {
+          this.addButtonsToLeaf(leaf)
+        }
+      })
+    },
+    300,
+    true,
+  )
+
+  /**
+   * Handler for Obsidian's 'active-leaf-change' event.
+   * Updates the visibility (opacity, pointer-events) of button containers
+   * in all managed leaves based on which leaf is now active.
+   * @param activeLeaf The newly activated workspace leaf, or null if none.
+   */
+  private handleActiveLeafChange = (activeLeaf: WorkspaceLeaf | null) => {
+    // Auto-scroll follows the view the user is looking at
+    if (this.autoScroll && this.autoScroll.leaf !== activeLeaf) {
+      this.stopAutoScroll()
+    }
+    this.leafButtonContainers.forEach((container, leaf) => {
+      const shouldBeVisible = leaf === activeLeaf
+      this.setContainerVisible(container, shouldBeVisible)
+      if (shouldBeVisible) {
+        this.resetIdleTimer(leaf)
+        // Pick up search matches after coming back from the search view
+        this.renderOverviewRail(leaf)
+      }
+      // Remember where each note was left when focus moves around
+      this.recordScrollPosition(leaf)
+    })
+  }
+
+  /**
+   * Handler for Obsidian's 'file-open' event.
+   * Restores the remembered scroll position of the opened note, unless
+   * something else (e.g. a heading link) already scrolled it.
+   * @param file The file that was opened, or null.
+   */
+  private handleFileOpen = (file: TFile | null) => {
+    // A leaf may now show a note matched by different profiles, or one
+    // with its own dragged button position
+    this.leafAdapters.forEach((_, leaf) => {
+      this.refreshLeafSettings(leaf)
+      this.applyButtonPosition(leaf)
+    })
+
+    if (!file || !this.settings.rememberScrollPosition) return
+
+    const savedScroll = this.scrollPositions[file.path]
+    if (savedScroll === undefined) return
+
+    // Wait for the view to render before scrolling
+    window.setTimeout(() => {
+      const leaf = this.app.workspace.activeLeaf
+      const adapter = leaf && this.getLeafScrollAdapter(leaf)
+      if (!adapter || getViewFilePath(adapter.view) !== file.path) return
+      if (adapter.getScroll() > 0) return
+      adapter.applyScroll(savedScroll)
+    }, 50)
+  }
+
+  /**
+   * Handler for `obsidian://scroll-control` links, e.g.
+   * `obsidian://scroll-control?file=Logs/server&to=line:120`. Opens the
+   * file unless it's open already, then scrolls it like the buttons do.
+   * @param params The link's query parameters.
+   */
+  private handleScrollUri = async (params: ObsidianProtocolData) => {
+    const { file: path, to = 'top' } = params
+    if (!path) {
+      new Notice('Scroll Control: the link has no file parameter')
+      return
+    }
+    const target = parseUriTarget(to)
+    if (!target) {
+      new Notice(`Scroll Control: can't scroll to "${to}"`)
+      return
+    }
+    // Accepts paths with or without extension, like Obsidian's own links
+    const file = this.app.metadataCache.getFirstLinkpathDest(path, '')
+    if (!file) {
+      new Notice(`Scroll Control: can't find "${path}"`)
+      return
+    }
+
+    const openLeaves: WorkspaceLeaf[] = []
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (getViewFilePath(leaf.view) === file.path) openLeaves.push(leaf)
+    })
+    let leaf = openLeaves[0]
+    if (!leaf) {
+      leaf = this.app.workspace.getLeaf(false)
+      await leaf.openFile(file)
+    }
+    this.app.workspace.setActiveLeaf(leaf, { focus: true })
+
+    const openedLeaf = leaf
+    window.setTimeout(() => {
+      // The buttons of a just opened leaf may not exist yet
+      this.addButtonsToLeaf(openedLeaf)
+      const adapter = this.getLeafScrollAdapter(openedLeaf)
+      if (!adapter) return
+
+      if (target.type !== 'heading') {
+        this.scrollToPosition(target, adapter)
+        return
+      }
+      const wanted = target.heading.toLowerCase()
+      const heading = this.app.metadataCache
+        .getFileCache(file)
+        ?.headings?.find((heading) => heading.heading.toLowerCase() === wanted)
+      if (!heading) {
+        new Notice(
+          `Scroll Control: no heading "${target.heading}" in ${file.basename}`,
+        )
+        return
+      }
+      this.scrollToPosition(
+        { type: 'line', line: heading.position.start.line },
+        adapter,
+        `Heading: ${heading.heading}`,
+      )
+    }, URI_SCROLL_DELAY)
+  }
+
+  /**
+   * Handler for the vault 'delete' event. Forgets the scroll and button
+   * positions and the marks of the deleted note, or of every note in a
+   * deleted folder.
+   * @param file The deleted file or folder.
+   */
+  private handleFileDelete = (file: TAbstractFile) => {
+    this.updateStoredPaths((path) =>
+      isPathWithin(path, file.path) ? null : path,
+    )
+  }
+
+  /**
+   * Handler for the vault 'rename' event. Moves the remembered scroll and
+   * button positions and the marks to the note's new path, or for a folder,
+   * those of every note in it.
+   * @param file The renamed file or folder.
+   * @param oldPath The path before the rename.
+   */
+  private handleFileRename = (file: TAbstractFile, oldPath: string) => {
+    this.updateStoredPaths((path) =>
+      isPathWithin(path, oldPath)
+        ? file.path + path.slice(oldPath.length)
+        : path,
+    )
+  }
+
+  /**
+   * Rewrites the paths of everything remembered per note: scroll and
+   * button positions and marks. Saves if anything changed.
+   * @param update Returns a path's new path, or null to forget it.
+   */
+  private updateStoredPaths(update: (path: string) => string | null) {
+    let changed = false
+    const maps: Record<string, unknown>[] = [
+      this.scrollPositions,
+      this.buttonPositions,
+      this.scrollMarks,
+    ]
+    maps.forEach((map) => {
+      Object.keys(map).forEach((path) => {
+        const newPath = update(path)
+        if (newPath === path) return
+        if (newPath !== null) map[newPath] = map[path]
+        delete map[path]
+        changed = true
+      })
+    })
+    if (changed) this.requestSavePositions()
+  }
+
+  /**
+   * Updates the in-memory snapshot of a leaf's scroll position.
+   * If the leaf now shows a different file, the previous file's
+   * position is remembered first.
+   * @param leaf The workspace leaf whose position should be captured.
+   */
+  private updateScrollSnapshot(leaf: WorkspaceLeaf) {
+    const adapter = this.leafAdapters.get(leaf)
+    // Once the view is replaced, keep the last snapshot of the old one
+    if (adapter?.view !== leaf.view) return
+    const path = getViewFilePath(adapter.view)
+    if (!path) return
+
+    const previous = this.leafScrollSnapshots.get(leaf)
+    if (previous && previous.path !== path) {
+      this.rememberScrollPosition(previous)
+      // The scroll history only covers jumps within one note
+      this.scrollHistories.delete(leaf)
+      this.leafSettledTops.delete(leaf)
+      this.updateHistoryBadges(leaf)
+    }
+
+    // A long scroll in one go, such as following a link to a heading in
+    // the same note, is worth going back from
+    const scrollEl = adapter.getScrollElement()
+    // An animated jump is still on its way; it was recorded when it started
+    const isAnimating =
+      scrollEl !== null &&
+      (scrollAnimations.has(scrollEl) || bottomFollows.has(scrollEl))
+    if (scrollEl && !isAnimating) {
+      const settledTop = this.leafSettledTops.get(leaf)
+      if (
+        previous?.path === path &&
+        settledTop !== undefined &&
+        Math.abs(scrollEl.scrollTop - settledTop) >
+          scrollEl.clientHeight * HISTORY_DISTANCE_FACTOR
+      ) {
+        this.pushScrollHistory(leaf, previous)
+      }
+      this.leafSettledTops.set(leaf, scrollEl.scrollTop)
+    }
+
+    this.leafScrollSnapshots.set(leaf, { path, scroll: adapter.getScroll() })
+  }
+
+  /**
+   * Adds a position to a leaf's scroll history, dropping anything that
+   * could have been gone forward to.
+   * @param leaf The workspace leaf.
+   * @param snapshot The position the leaf is leaving.
+   */
+  private pushScrollHistory(leaf: WorkspaceLeaf, snapshot: ScrollSnapshot) {
+    const history = this.scrollHistories.get(leaf) ?? { back: [], forward: [] }
+    const last = history.back[history.back.length - 1]
+    if (last?.path !== snapshot.path || last.scroll !== snapshot.scroll) {
+      history.back.push(snapshot)
+      history.back.splice(0, history.back.length - MAX_SCROLL_HISTORY)
+    }
+    history.forward = []
+    this.scrollHistories.set(leaf, history)
+    this.updateHistoryBadges(leaf)
+  }
+
+  /**
+   * Steps back or forward through a leaf's scroll history.
+   * @param direction Which way to step.
+   * @param adapter The scroll adapter of the view to scroll.
+   */
+  private navigateHistory(
+    direction: 'back' | 'forward',
+    adapter: ScrollAdapter,
+  ) {
+    const leaf = adapter.view.leaf
+    const history = this.scrollHistories.get(leaf)
+    const path = getViewFilePath(adapter.view)
+    if (!history || !path) return
+
+    const [from, to] =
+      direction === 'back'
+        ? [history.back, history.forward]
+        : [history.forward, history.back]
+    const target = from.pop()
+    if (!target) return
+
+    to.push({ path, scroll: adapter.getScroll() })
+    // Don't mistake the move for a new long scroll once it settles
+    this.leafSettledTops.delete(leaf)
+    adapter.applyScroll(target.scroll)
+    this.updateHistoryBadges(leaf)
+    this.announce(
+      direction === 'back'
+        ? 'Went back in scroll history'
+        : 'Went forward in scroll history',
+    )
+  }
+
+  /**
+   * Shows how many steps back or forward are available on a leaf's
+   * history buttons.
+   * @param leaf The workspace leaf whose buttons should be updated.
+   */
+  private updateHistoryBadges(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    if (!container) return
+
+    const history = this.scrollHistories.get(leaf)
+    for (const direction of ['back', 'forward'] as const) {
+      const depth = history?.[direction].length ?? 0
+      container
+        .querySelectorAll(
+          `.scroll-control-action-history-${direction} .scroll-control-badge`,
+        )
+        .forEach((badge) => {
+          badge.setText(depth > 0 ? String(depth) : '')
+          badge.toggleClass('scroll-control-badge-empty', depth === 0)
+        })
+    }
+  }
+
+  /**
+   * Captures the leaf's current (or last observed) scroll position and
+   * remembers it for its file.
+   * @param leaf The workspace leaf whose position should be recorded.
+   */
+  private recordScrollPosition(leaf: WorkspaceLeaf) {
+    this.updateScrollSnapshot(leaf)
+    const snapshot = this.leafScrollSnapshots.get(leaf)
+    if (snapshot) {
+      this.rememberScrollPosition(snapshot)
+    }
+  }
+
+  /**
+   * Stores a file's scroll position, keeping the most recently used entries
+   * and dropping the oldest once the configured cap is exceeded.
+   * @param snapshot The position to remember.
+   */
+  private rememberScrollPosition(snapshot: ScrollSnapshot) {
+    if (!this.settings.rememberScrollPosition) return
+    if (this.scrollPositions[snapshot.path] === snapshot.scroll) return
+
+    // Re-insert so the entry moves to the end (most recent)
+    delete this.scrollPositions[snapshot.path]
+    this.scrollPositions[snapshot.path] = snapshot.scroll
+
+    const paths = Object.keys(this.scrollPositions)
+    const excess = paths.length - this.settings.maxRememberedPositions
+    paths.slice(0, Math.max(excess, 0)).forEach((path) => {
+      delete this.scrollPositions[path]
+    })
+
+    this.requestSavePositions()
+  }
+
+  /**
+   * Drops remembered scroll and button positions and marks of files that
+   * no longer exist in the vault, e.g. deleted while the plugin was off.
+   */
+  private pruneStoredPaths() {
+    this.updateStoredPaths((path) =>
+      this.app.vault.getAbstractFileByPath(path) instanceof TFile ? path : null,
+    )
+  }
+
+  /**
+   * Creates and appends a button container to the specified leaf's content element.
+   * Tracks the container and populates it with buttons.
+   * Sets initial visibility based on the leaf's active state.
+   * @param leaf The workspace leaf to add buttons to.
+   */
+  private addButtonsToLeaf(leaf: WorkspaceLeaf) {
+    if (!this.isLeafEnabled(leaf) || this.leafButtonContainers.has(leaf)) {
+      return // Only add to enabled views and only if not already added
+    }
+
+    const view = leaf.view
+    const adapter = createScrollAdapter(view)
+    if (!adapter) {
+      return
+    }
+
+    const container = document.createElement('div')
+    container.addClass('scroll-control-button-container')
+    container.setAttribute('role', 'toolbar')
+    container.setAttribute('aria-label', 'Scroll controls')
+
+    // Find the .view-content element within the view's container
+    const viewContent =
+      view.containerEl.querySelector<HTMLElement>('.view-content')
+    if (!viewContent) {
+      return
+    }
+
+    const settings = this.resolveSettings(
+      view instanceof FileView ? view.file : null,
+    )
+
+    viewContent.appendChild(container)
+    this.leafButtonContainers.set(leaf, container)
+    this.leafAdapters.set(leaf, adapter)
+    this.leafSettings.set(leaf, settings)
+    this.applyContainerSettings(container, settings)
+    this.createFloatingButtons(container, adapter)
+    this.applyButtonPosition(leaf)
+    container.toggleClass('scroll-control-linked', this.linkedLeaves.has(leaf))
+    this.renderOverviewRail(leaf)
+    this.updateSingleLeafVisibility(leaf)
+
+    this.updateScrollState(leaf)
+    this.resetIdleTimer(leaf)
+
+    // Scroll events don't bubble, so listen in the capture phase to catch
+    // whichever element scrolls (CodeMirror, preview, PDF viewer, ...)
+    // Trailing, so a snapshot is taken once the scroll has come to rest
+    const updateSnapshot = debounce(
+      () => this.updateScrollSnapshot(leaf),
+      200,
+      true,
+    )
+    let scrollFrame: number | null = null
+    const handleScroll = () => {
+      updateSnapshot()
+      this.resetIdleTimer(leaf)
+      // Redraw scroll-dependent UI at most once per frame
+      scrollFrame ??= window.requestAnimationFrame(() => {
+        scrollFrame = null
+        this.updateScrollState(leaf)
+        this.syncScroll(leaf)
+      })
+    }
+    const handleMouseMove = (event: MouseEvent) => {
+      if (
+        this.getLeafSettings(leaf).revealOnMouseNear &&
+        container.hasClass('scroll-control-idle') &&
+        this.isNearButtonEdge(event, leaf, viewContent)
+      ) {
+        this.resetIdleTimer(leaf)
+      }
+    }
+    viewContent.addEventListener('scroll', handleScroll, {
+      capture: true,
+      passive: true,
+    })
+    viewContent.addEventListener('mousemove', handleMouseMove, {
+      passive: true,
+    })
+    // Resizing the pane moves the text column
+    const resizeObserver = new ResizeObserver(() =>
+      this.updateColumnInset(leaf),
+    )
+    resizeObserver.observe(viewContent)
+    const removeDragListeners = this.makeDraggable(leaf, container, viewContent)
+    const removeSwipeListeners = this.addEdgeSwipe(leaf, viewContent)
+    this.leafCleanups.set(leaf, () => {
+      resizeObserver.disconnect()
+      removeDragListeners()
+      removeSwipeListeners()
+      updateSnapshot.cancel()
+      if (scrollFrame !== null) {
+        window.cancelAnimationFrame(scrollFrame)
+      }
+      viewContent.removeEventListener('scroll', handleScroll, {
+        capture: true,
+      })
+      viewContent.removeEventListener('mousemove', handleMouseMove)
+    })
+  }
+
+  /**
+   * Removes the button container from a specific leaf and stops tracking it.
+   * @param leaf The workspace leaf to remove buttons from.
+   */
+  private removeButtonsFromLeaf(leaf: WorkspaceLeaf) {
+    if (this.autoScroll?.leaf === leaf) {
+      this.stopAutoScroll()
+    }
+    if (this.leafButtonContainers.has(leaf)) {
+      const container = this.leafButtonContainers.get(leaf)
+      container?.parentElement?.removeClass('scroll-control-center-end')
+      container?.remove()
+      this.leafButtonContainers.delete(leaf)
+    }
+    this.leafOverviewRails.get(leaf)?.remove()
+    this.leafOverviewRails.delete(leaf)
+    this.leafCleanups.get(leaf)?.()
+    this.leafCleanups.delete(leaf)
+    this.leafScrollSnapshots.delete(leaf)
+    this.leafAdapters.delete(leaf)
+    this.leafSettings.delete(leaf)
+    this.syncEchoes.delete(leaf)
+    this.leafSettledTops.delete(leaf)
+    window.clearTimeout(this.leafIdleTimers.get(leaf))
+    this.leafIdleTimers.delete(leaf)
+  }
+
+  /**
+   * Shows a leaf's buttons again and restarts the countdown after which
+   * they fade out, if idle auto-hide is enabled.
+   * @param leaf The workspace leaf whose idle timer should be reset.
+   */
+  private resetIdleTimer(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    if (!container) return
+
+    container.removeClass('scroll-control-idle')
+    window.clearTimeout(this.leafIdleTimers.get(leaf))
+    this.leafIdleTimers.delete(leaf)
+
+    const settings = this.getLeafSettings(leaf)
+    if (!settings.autoHideWhenIdle) return
+
+    this.leafIdleTimers.set(
+      leaf,
+      window.setTimeout(() => {
+        container.addClass('scroll-control-idle')
+        this.leafIdleTimers.delete(leaf)
+      }, settings.autoHideDelay * 1000),
+    )
+  }
+
+  /**
+   * Checks whether the mouse is within REVEAL_DISTANCE of the pane edge
+   * the buttons are anchored to: the inline end for centered anchors, and
+   * swapped in RTL layouts like the buttons themselves. Measuring against
+   * the edge rather than the faded buttons keeps them easy to find again.
+   * @param event The mouse event carrying the pointer position.
+   * @param leaf The workspace leaf whose buttons should be revealed.
+   * @param viewContent The pane's content element.
+   * @returns True if the pointer is close to that edge.
+   */
+  private isNearButtonEdge(
+    event: MouseEvent,
+    leaf: WorkspaceLeaf,
+    viewContent: HTMLElement,
+  ): boolean {
+    const pane = viewContent.getBoundingClientRect()
+    const side = getAnchorSide(this.getLeafSettings(leaf).anchor) ?? 'right'
+    const distance =
+      getPhysicalSide(side, viewContent) === 'left'
+        ? event.clientX - pane.left
+        : pane.right - event.clientX
+    return distance <= REVEAL_DISTANCE
+  }
+
+  /**
+   * Sets the initial visibility (opacity, pointer-events) for a single leaf's button container
+   * based on whether it is currently the active leaf.
+   * @param leaf The workspace leaf whose button visibility should be updated.
+   */
+  private updateSingleLeafVisibility(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    if (container) {
+      const isActive = this.app.workspace.activeLeaf === leaf
+      this.setContainerVisible(container, isActive)
+    }
+  }
+
+  /**
+   * Shows or hides a button container. Hidden containers are also removed
+   * from the accessibility tree and the tab order, so screen readers and
+   * keyboard users don't land on invisible buttons.
+   * @param container The button container.
+   * @param visible Whether the container should be shown.
+   */
+  private setContainerVisible(container: HTMLElement, visible: boolean) {
+    container.toggleClass('scroll-control-visible', visible)
+    container.toggleClass('scroll-control-hidden', !visible)
+    container.setAttribute('aria-hidden', visible ? 'false' : 'true')
+    container.toggleAttribute('inert', !visible)
+  }
+
+  /**
+   * Updates everything in a leaf's button container that depends on the
+   * scroll position: the progress indicator and, if enabled, the
+   * visibility of the top/bottom buttons.
+   * @param leaf The workspace leaf whose container should be refreshed.
+   */
+  private updateScrollState(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    const adapter = this.leafAdapters.get(leaf)
+    if (!container || !adapter) return
+
+    const scrollEl = adapter.getScrollElement()
+    const scrollTop = scrollEl?.scrollTop ?? 0
+    const scrollable = scrollEl
+      ? scrollEl.scrollHeight - scrollEl.clientHeight
+      : 0
+
+    const indicator = container.querySelector<HTMLElement>(
+      '.scroll-control-progress',
+    )
+    if (indicator) {
+      // Notes that fit on screen count as fully read
+      this.setProgress(indicator, scrollable > 0 ? scrollTop / scrollable : 1)
+    }
+
+    const viewport = this.leafOverviewRails
+      .get(leaf)
+      ?.querySelector<HTMLElement>('.scroll-control-overview-viewport')
+    if (viewport && scrollEl && adapter.view instanceof MarkdownView) {
+      const { top, height } = getOverviewViewport(adapter.view, scrollEl)
+      viewport.style.setProperty(
+        '--scroll-control-viewport-top',
+        `${top * 100}%`,
+      )
+      viewport.style.setProperty(
+        '--scroll-control-viewport-height',
+        `${height * 100}%`,
+      )
+    }
+
+    // Allow a pixel of slack for fractional scroll offsets. Views that don't
+    // scroll natively (e.g. Canvas) have no edges to hide at.
+    const hideEdges =
+      this.getLeafSettings(leaf).hideButtonsAtEdges && scrollEl !== null
+    container
+      .querySelectorAll('.scroll-control-action-top')
+      .forEach((button) =>
+        button.toggleClass(
+          'scroll-control-button-concealed',
+          hideEdges && scrollTop <= 1,
+        ),
+      )
+    container
+      .querySelectorAll('.scroll-control-action-bottom')
+      .forEach((button) =>
+        button.toggleClass(
+          'scroll-control-button-concealed',
+          hideEdges && scrollTop >= scrollable - 1,
+        ),
+      )
+  }
+
+  /**
+   * Creates a progress indicator element in the requested style.
+   * @param parent The element to append the indicator to.
+   * @param style 'ring' or 'bar'.
+   * @param size The button size preset the indicator should match.
+   * @returns The created indicator element.
+   */
+  public createProgressIndicator(
+    parent: HTMLElement,
+    style: 'ring' | 'bar',
+    size: ScrollControlSettings['buttonSize'],
+  ): HTMLElement {
+    const indicator = parent.createDiv({
+      cls: ['scroll-control-progress', `scroll-control-progress-${style}`],
+      attr: { role: 'progressbar', 'aria-valuemin': 0, 'aria-valuemax': 100 },
+    })
+
+    if (style === 'ring') {
+      // Reuse the button size presets so the ring lines up with the buttons
+      indicator.addClass(`scroll-control-button-${size}`)
+      const svgNs = 'http://www.w3.org/2000/svg'
+      const svg = document.createElementNS(svgNs, 'svg')
+      svg.setAttribute('viewBox', '0 0 36 36')
+      ;['track', 'fill'].forEach((part) => {
+        const circle = document.createElementNS(svgNs, 'circle')
+        circle.setAttribute('class', `scroll-control-progress-${part}`)
+        circle.setAttribute('cx', '18')
+        circle.setAttribute('cy', '18')
+        circle.setAttribute('r', '16')
+        // Normalize the circumference so the dash offset is a percentage
+        circle.setAttribute('pathLength', '100')
+        svg.appendChild(circle)
+      })
+      indicator.appendChild(svg)
+    } else {
+      indicator.addClass(`scroll-control-progress-bar-${size}`)
+      indicator.createDiv('scroll-control-progress-fill')
+    }
+
+    return indicator
+  }
+
+  /**
+   * Draws the given progress on an indicator created by createProgressIndicator.
+   * @param indicator The indicator element.
+   * @param progress Progress between 0 and 1.
+   */
+  public setProgress(indicator: HTMLElement, progress: number) {
+    const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100)
+    indicator.style.setProperty('--scroll-control-progress', `${percent}`)
+    indicator.setAttribute('aria-valuenow', `${percent}`)
+    indicator.setAttribute('aria-label', `Scroll progress: ${percent}%`)
+  }
+
+  /**
+   * Scrolls the provided view to the described target.
+   * The adapter handles the specifics of each view type and mode.
+   * @param target Where the scroll should land.
+   * @param adapter The scroll adapter of the view to scroll.
+   * @param announcement What to tell screen readers, if not the default
+   *   description of the target.
+   */
+  private scrollToPosition(
+    target: ScrollTarget,
+    adapter: ScrollAdapter | null,
+    announcement = describeScrollTarget(target),
+  ) {
+    if (!adapter) return
+
+    // Remember where we were so the jump can be undone. Paging is
+    // incremental and doesn't count as a jump.
+    const path = getViewFilePath(adapter.view)
+    if (path && target.type !== 'page') {
+      const origin = { path, scroll: adapter.getScroll() }
+      this.jumpOrigins.set(adapter.view.leaf, origin)
+      this.pushScrollHistory(adapter.view.leaf, origin)
+      // Already in the history, so don't count it again once it settles
+      this.leafSettledTops.delete(adapter.view.leaf)
+    }
+
+    const settings = this.getLeafSettings(adapter.view.leaf)
+    adapter.scrollTo(
+      target,
+      this.shouldAnimate(settings)
+        ? { duration: settings.animationSpeed, easing: settings.scrollEasing }
+        : null,
+      settings.endOfDocumentAlignment,
+    )
+    if (
+      settings.cursorBehavior === 'follow' &&
+      (target.type === 'top' || target.type === 'bottom')
+    ) {
+      this.moveCursor(adapter, target)
+    }
+    this.announce(announcement)
+    this.apiEvents.trigger('scrolled-to', adapter.view.leaf, target)
+  }
+
+  /**
+   * Checks whether scrolling and the buttons should animate, honoring the
+   * system's reduced-motion preference unless the user opted out.
+   * @param settings The effective settings of the leaf.
+   * @returns True if animations should play.
+   */
+  private shouldAnimate(settings: ResolvedSettings): boolean {
+    return (
+      settings.useAnimations &&
+      !(settings.respectReducedMotion && prefersReducedMotion())
+    )
+  }
+
+  /**
+   * Reads a message out to screen readers through the live region.
+   * @param message The message to announce.
+   */
+  private announce(message: string) {
+    const announcerEl = this.announcerEl
+    if (!announcerEl) return
+    // Clear first so repeating the same message is announced again
+    announcerEl.setText('')
+    window.requestAnimationFrame(() => announcerEl.setText(message))
+  }
+
+  /**
+   * Returns the provided view to where it was before the last
+   * jump made by scrollToPosition.
+   * @param adapter The scroll adapter of the view to scroll.
+   */
+  private jumpBack(adapter: ScrollAdapter | null) {
+    if (!adapter) return
+
+    const leaf = adapter.view.leaf
+    const origin = this.jumpOrigins.get(leaf)
+    if (!origin || origin.path !== getViewFilePath(adapter.view)) return
+
+    this.jumpOrigins.delete(leaf)
+    adapter.applyScroll(origin.scroll)
+    this.announce('Jumped back')
+  }
+
+  /**
+   * Scrolls the provided Markdown view so the nearest heading above or below
+   * the current viewport sits at the top of the view.
+   * Headings are read from the file's metadata cache.
+   * @param direction 'previous' or 'next'.
+   * @param adapter The scroll adapter of the view to scroll.
+   */
+  private scrollToHeading(
+    direction: 'previous' | 'next',
+    adapter: ScrollAdapter | null,
+  ) {
+    if (!adapter) return
+    const view = adapter.view
+    if (!(view instanceof MarkdownView) || !view.file) return
+
+    const headings = this.app.metadataCache.getFileCache(view.file)?.headings
+    if (!headings?.length) return
+
+    // getScroll() returns the (fractional) line at the top of the viewport
+    const currentLine = view.currentMode.getScroll()
+    const target =
+      direction === 'next'
+        ? headings.find(
+            (heading) => heading.position.start.line > Math.floor(currentLine),
+          )
+        : headings
+            .filter(
+              (heading) => heading.position.start.line < currentLine - 0.01,
+            )
+            .pop()
+
+    if (!target) return
+
+    const lineTarget: ScrollTarget = {
+      type: 'line',
+      line: target.position.start.line,
+    }
+    this.scrollToPosition(lineTarget, adapter, `Heading: ${target.heading}`)
+    if (this.getLeafSettings(view.leaf).cursorBehavior === 'follow') {
+      this.moveCursor(adapter, lineTarget)
+    }
+  }
+
+  /**
+   * Moves the editor's cursor to where a jump landed and focuses the editor,
+   * so typing continues there. Only notes in editing mode have a cursor;
+   * other views are left alone.
+   * @param adapter The scroll adapter of the view that jumped.
+   * @param target The top, the bottom, or the start of a line.
+   * @param anchor Where the selection should start, to extend it like
+   *   Shift+Ctrl+Home and Shift+Ctrl+End; collapses the selection if omitted.
+   */
+  private moveCursor(
+    adapter: ScrollAdapter,
+    target: ScrollTarget,
+    anchor?: EditorPosition,
+  ) {
+    const view = adapter.view
+    if (!(view instanceof MarkdownView) || view.getMode() !== 'source') return
+
+    const editor = view.editor
+    let head: EditorPosition
+    switch (target.type) {
+      case 'top':
+        head = { line: 0, ch: 0 }
+        break
+      case 'bottom': {
+        const line = editor.lastLine()
+        head = { line, ch: editor.getLine(line).length }
+        break
+      }
+      case 'line':
+        head = {
+          line: Math.min(Math.max(target.line, 0), editor.lastLine()),
+          ch: 0,
+        }
+        break
+      default:
+        return
+    }
+
+    editor.setSelection(anchor ?? head, head)
+    editor.focus()
+  }
+
+  /**
+   * Scrolls a note in editing mode to its top or bottom and extends the
+   * selection there.
+   * @param edge 'top' or 'bottom'.
+   * @param adapter The scroll adapter of the active view.
+   * @param checking Whether the command palette is only checking
+   *   availability.
+   * @returns Whether the command is available.
+   */
+  private selectToEdge(
+    edge: 'top' | 'bottom',
+    adapter: ScrollAdapter | null,
+    checking: boolean,
+  ): boolean {
+    if (
+      !adapter ||
+      !(adapter.view instanceof MarkdownView) ||
+      adapter.view.getMode() !== 'source'
+    ) {
+      return false
+    }
+    if (!checking) {
+      const target: ScrollTarget = { type: edge }
+      // Read the anchor first: a cursor-follow move collapses the selection
+      const anchor = adapter.view.editor.getCursor('anchor')
+      this.scrollToPosition(target, adapter)
+      this.moveCursor(adapter, target, anchor)
+    }
+    return true
+  }
+
+  /**
+   * Performs a floating button's action on the view the button belongs to.
+   * @param action The action to perform.
+   * @param adapter The scroll adapter of the button's view.
+   */
+  private runButtonAction(action: ButtonAction, adapter: ScrollAdapter) {
+    switch (action.type) {
+      case 'scroll':
+        this.scrollToPosition(action.target, adapter)
+        break
+      case 'heading':
+        this.scrollToHeading(action.direction, adapter)
+        break
+      case 'jump-back':
+        this.jumpBack(adapter)
+        break
+      case 'command': {
+        // Commands act on the active leaf, so focus the button's leaf first
+        this.app.workspace.setActiveLeaf(adapter.view.leaf, { focus: true })
+        const { commands } = this.app as App & {
+          commands: { executeCommandById(id: string): boolean }
+        }
+        if (!commands.executeCommandById(action.commandId)) {
+          new Notice(`Scroll Control: unknown command "${action.commandId}"`)
+        }
+        break
+      }
+      case 'uri':
+        window.open(action.uri)
+        break
+      case 'toggle-link':
+        this.toggleLeafLink(adapter.view.leaf)
+        break
+      case 'auto-scroll':
+        this.toggleAutoScroll(adapter)
+        break
+      case 'set-mark':
+        this.promptForMark('set', adapter)
+        break
+      case 'history':
+        this.navigateHistory(action.direction, adapter)
+        break
+    }
+  }
+
+  /**
+   * Starts auto-scrolling a view, or stops it if it is already running there.
+   * @param adapter The scroll adapter of the view.
+   */
+  toggleAutoScroll(adapter: ScrollAdapter) {
+    if (this.autoScroll?.leaf === adapter.view.leaf) {
+      this.stopAutoScroll()
+    } else {
+      this.startAutoScroll(adapter)
+    }
+  }
+
+  /**
+   * Scrolls a view continuously at the configured speed until it reaches
+   * the bottom, the user scrolls or presses a key, or focus moves to
+   * another view. Works for any view with a scrolling element, including
+   * both modes of Markdown notes.
+   * @param adapter The scroll adapter of the view to scroll.
+   */
+  private startAutoScroll(adapter: ScrollAdapter) {
+    this.stopAutoScroll()
+    const scrollEl = adapter.getScrollElement()
+    if (!scrollEl) return
+
+    const stop = () => this.stopAutoScroll()
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // The buttons handle their own keys, including the pause button
+      if (
+        event.target instanceof Element &&
+        event.target.closest('.scroll-control-button-container')
+      ) {
+        return
+      }
+      // Modified keys are likely hotkeys, e.g. for changing the speed
+      if (!event.ctrlKey && !event.metaKey && !event.altKey) stop()
+    }
+    const doc = scrollEl.ownerDocument
+    scrollEl.addEventListener('wheel', stop, { passive: true })
+    scrollEl.addEventListener('touchstart', stop, { passive: true })
+    doc.addEventListener('keydown', handleKeyDown, { capture: true })
+
+    const step = (time: number) => {
+      const state = this.autoScroll
+      if (!state) return
+
+      // Anything else moving the view (e.g. dragging the scrollbar) means
+      // the user has taken over
+      if (Math.abs(scrollEl.scrollTop - state.position) > 2) {
+        this.stopAutoScroll()
+        return
+      }
+
+      if (state.lastTime !== null) {
+        state.position +=
+          (this.getAutoScrollPixelsPerSecond(scrollEl) *
+            (time - state.lastTime)) /
+          1000
+      }
+      state.lastTime = time
+
+      const maxScroll = scrollEl.scrollHeight - scrollEl.clientHeight
+      scrollEl.scrollTop = Math.min(state.position, maxScroll)
+      if (state.position >= maxScroll) {
+        this.stopAutoScroll()
+        return
+      }
+      state.frame = window.requestAnimationFrame(step)
+    }
+
+    this.autoScroll = {
+      leaf: adapter.view.leaf,
+      scrollEl,
+      position: scrollEl.scrollTop,
+      lastTime: null,
+      frame: window.requestAnimationFrame(step),
+      cleanup: () => {
+        scrollEl.removeEventListener('wheel', stop)
+        scrollEl.removeEventListener('touchstart', stop)
+        doc.removeEventListener('keydown', handleKeyDown, { capture: true })
+      },
+    }
+    this.updateAutoScrollButtons(adapter.view.leaf)
+  }
+
+  /**
+   * Stops the running auto-scroll, if any.
+   */
+  stopAutoScroll() {
+    const state = this.autoScroll
+    if (!state) return
+
+    window.cancelAnimationFrame(state.frame)
+    state.cleanup()
+    this.autoScroll = null
+    this.updateAutoScrollButtons(state.leaf)
+  }
+
+  /**
+   * Switches a leaf's auto-scroll buttons between play and pause controls
+   * and updates the speed shown next to them. Updates the buttons in place
+   * rather than rebuilding them, so keyboard focus stays on the button.
+   * @param leaf The workspace leaf whose buttons should be updated.
+   */
+  private updateAutoScrollButtons(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    if (!container) return
+
+    const running = this.autoScroll?.leaf === leaf
+    const settings = this.getLeafSettings(leaf)
+    const iconColor = this.getButtonColors(settings).icon ?? 'currentColor'
+    settings.buttons
+      .filter((config) => config.action.type === 'auto-scroll')
+      .forEach((config) => {
+        const button = container.querySelector<HTMLElement>(
+          `.scroll-control-button-${config.id}`,
+        )
+        if (!button) return
+
+        button.empty()
+        renderButtonIcon(
+          button,
+          running ? 'pause' : config.icon,
+          iconColor,
+          this,
+        )
+        button.setAttribute(
+          'aria-label',
+          running ? 'Stop Auto-Scroll' : config.tooltip,
+        )
+        button.setAttribute('aria-pressed', `${running}`)
+
+        // The speed readout follows the pause control while running
+        const next = button.nextElementSibling
+        const readout = next?.hasClass('scroll-control-auto-scroll-speed')
+          ? next
+          : null
+        if (!running) {
+          readout?.remove()
+        } else if (readout) {
+          readout.setText(this.formatAutoScrollSpeed())
+        } else {
+          button.insertAdjacentElement(
+            'afterend',
+            createDiv({
+              cls: 'scroll-control-auto-scroll-speed',
+              text: this.formatAutoScrollSpeed(),
+            }),
+          )
+        }
+      })
+  }
+
+  /**
+   * Converts the configured auto-scroll speed to pixels per second.
+   * @param scrollEl The element being scrolled, used to measure lines.
+   * @returns The speed in pixels per second.
+   */
+  private getAutoScrollPixelsPerSecond(scrollEl: HTMLElement): number {
+    const { autoScrollSpeed, autoScrollUnit } = this.settings
+    return autoScrollUnit === 'lines'
+      ? autoScrollSpeed * getLineHeight(scrollEl)
+      : autoScrollSpeed
+  }
+
+  /**
+   * Multiplies the auto-scroll speed by a factor, within sensible limits,
+   * and shows the new speed. Takes effect immediately if auto-scroll is
+   * running.
+   * @param factor The factor to change the speed by.
+   */
+  private changeAutoScrollSpeed(factor: number) {
+    const speed = Math.min(
+      Math.max(this.settings.autoScrollSpeed * factor, AUTO_SCROLL_MIN_SPEED),
+      AUTO_SCROLL_MAX_SPEED,
+    )
+    this.settings.autoScrollSpeed = Math.round(speed * 10) / 10
+    void this.savePluginData()
+
+    if (this.autoScroll) {
+      this.updateAutoScrollButtons(this.autoScroll.leaf)
+    }
+    new Notice(`Auto-scroll speed: ${this.formatAutoScrollSpeed()}`)
+  }
+
+  /**
+   * Formats the auto-scroll speed with its unit, e.g. "30 px/s".
+   * @returns The formatted speed.
+   */
+  private formatAutoScrollSpeed(): string {
+    const { autoScrollSpeed, autoScrollUnit } = this.settings
+    return `${autoScrollSpeed} ${autoScrollUnit === 'lines' ? 'lines/s' : 'px/s'}`
+  }
+
+  /**
+   * Asks for a mark name, vim style, and sets, jumps to or deletes that
+   * mark in the view's note.
+   * @param mode What to do with the chosen mark.
+   * @param adapter The scroll adapter of a Markdown view.
+   */
+  private promptForMark(
+    mode: 'set' | 'jump' | 'delete',
+    adapter: ScrollAdapter,
+  ) {
+    const view = adapter.view
+    if (!(view instanceof MarkdownView) || !view.file) return
+    const path = view.file.path
+
+    const titles = {
+      set: 'Set mark',
+      jump: 'Jump to mark',
+      delete: 'Delete mark',
+    }
+    new MarkKeyModal(this.app, {
+      title: titles[mode],
+      marks: this.scrollMarks[path] ?? [],
+      onChoose: (name) => {
+        if (mode === 'set') {
+          this.setMark(view, name)
+        } else if (mode === 'jump') {
+          this.jumpToMark(adapter, name)
+        } else {
+          this.deleteMark(path, name)
+        }
+      },
+    }).open()
+  }
+
+  /**
+   * Marks the line at the top of a Markdown view under the given name,
+   * replacing any mark of that name in the note.
+   * @param view The Markdown view to mark.
+   * @param name The mark's name.
+   */
+  private setMark(view: MarkdownView, name: string) {
+    if (!view.file) return
+    const lines = view.getViewData().split('\n')
+
+    // Blank lines can't be found again, so anchor to the next line with text
+    let line = Math.max(Math.floor(view.currentMode.getScroll()), 0)
+    while (line < lines.length - 1 && !lines[line]?.trim()) {
+      line++
+    }
+    const text = lines[line]?.trim() ?? ''
+    const blockId = BLOCK_ID_PATTERN.exec(text)?.[1]
+
+    const mark: ScrollMark = { name, line, text }
+    if (blockId) {
+      mark.blockId = blockId
+    }
+    const marks = (this.scrollMarks[view.file.path] ?? []).filter(
+      (other) => other.name !== name,
+    )
+    marks.push(mark)
+    marks.sort((a, b) => a.name.localeCompare(b.name))
+    this.scrollMarks[view.file.path] = marks
+
+    this.requestSavePositions()
+    this.refreshMarkRails(view.file.path)
+    new Notice(`Mark '${name}' set`)
+  }
+
+  /**
+   * Scrolls a view to one of its note's marks.
+   * @param adapter The scroll adapter of a Markdown view.
+   * @param name The mark's name.
+   */
+  private jumpToMark(adapter: ScrollAdapter, name: string) {
+    const view = adapter.view
+    if (!(view instanceof MarkdownView) || !view.file) return
+
+    const mark = this.scrollMarks[view.file.path]?.find(
+      (mark) => mark.name === name,
+    )
+    if (!mark) {
+      new Notice(`Mark '${name}' isn't set`)
+      return
+    }
+
+    const lines = view.getViewData().split('\n')
+    this.scrollToPosition(
+      { type: 'line', line: this.resolveMarkLine(mark, lines, view.file) },
+      adapter,
+      `Mark ${mark.name}: ${mark.text}`,
+    )
+  }
+
+  /**
+   * Removes a mark from a note.
+   * @param path Path of the note.
+   * @param name The mark's name.
+   */
+  private deleteMark(path: string, name: string) {
+    const marks = this.scrollMarks[path]?.filter((mark) => mark.name !== name)
+    if (marks?.length) {
+      this.scrollMarks[path] = marks
+    } else {
+      delete this.scrollMarks[path]
+    }
+    this.requestSavePositions()
+    this.refreshMarkRails(path)
+  }
+
+  /**
+   * Finds the line a mark belongs on after the note may have been edited:
+   * by its block ID, else by the nearest line with the same text, else
+   * where it last was. Remembers the line it was found at.
+   * @param mark The mark to locate.
+   * @param lines The note's current lines.
+   * @param file The note, for looking up block IDs.
+   * @returns The zero-based line of the mark.
+   */
+  private resolveMarkLine(
+    mark: ScrollMark,
+    lines: string[],
+    file: TFile,
+  ): number {
+    let line: number | null = null
+
+    if (mark.blockId) {
+      const blocks = this.app.metadataCache.getFileCache(file)?.blocks
+      const block =
+        blocks?.[mark.blockId] ?? blocks?.[mark.blockId.toLowerCase()]
+      if (block) line = block.position.start.line
+    }
+
+    if (line === null && mark.text) {
+      lines.forEach((text, index) => {
+        if (
+          text.trim() === mark.text &&
+          (line === null ||
+            Math.abs(index - mark.line) < Math.abs(line - mark.line))
+        ) {
+          line = index
+        }
+      })
+    }
+
+    line ??= Math.min(mark.line, lines.length - 1)
+    if (line !== mark.line) {
+      mark.line = line
+      this.requestSavePositions()
+    }
+    return line
+  }
+
+  /**
+   * Redraws the mark rail of every leaf showing a note.
+   * @param path Path of the note whose marks changed.
+   */
+  private refreshMarkRails(path: string) {
+    this.leafAdapters.forEach((adapter, leaf) => {
+      const container = this.leafButtonContainers.get(leaf)
+      if (container && getViewFilePath(adapter.view) === path) {
+        this.renderMarkRail(container, adapter)
+      }
+    })
+  }
+
+  /**
+   * Draws a thin rail in the button container with a tick for each of the
+   * note's marks, placed by how far down the note the mark is. Clicking a
+   * tick jumps to its mark.
+   * @param container The button container.
+   * @param adapter The scroll adapter of the container's view.
+   */
+  private renderMarkRail(container: HTMLElement, adapter: ScrollAdapter) {
+    container.querySelector('.scroll-control-mark-rail')?.remove()
+
+    const view = adapter.view
+    if (!(view instanceof MarkdownView) || !view.file) return
+    const file = view.file
+    const marks = this.scrollMarks[file.path]
+    if (!marks?.length) return
+
+    const lines = view.getViewData().split('\n')
+    const rail = container.createDiv('scroll-control-mark-rail')
+    marks.forEach((mark) => {
+      const line = this.resolveMarkLine(mark, lines, file)
+      const tick = rail.createDiv('scroll-control-mark-tick')
+      tick.style.setProperty(
+        '--scroll-control-mark-position',
+        `${(line / Math.max(lines.length - 1, 1)) * 100}%`,
+      )
+      tick.setAttribute('aria-label', `${mark.name}: ${mark.text}`)
+      tick.addEventListener('click', (event) => {
+        event.stopPropagation()
+        this.jumpToMark(adapter, mark.name)
+      })
+    })
+  }
+
+  /**
+   * Draws (or removes) the overview rail of a leaf: a thin strip along the
+   * pane edge on the buttons' side, with markers for the note's headings,
+   * callouts, code blocks, tasks and current search matches, and a
+   * highlight of the visible region. Clicking a marker jumps to it;
+   * clicking elsewhere on the rail jumps to that point in the note.
+   * @param leaf The workspace leaf to draw the rail for.
+   */
+  private renderOverviewRail(leaf: WorkspaceLeaf) {
+    this.leafOverviewRails.get(leaf)?.remove()
+    this.leafOverviewRails.delete(leaf)
+
+    const container = this.leafButtonContainers.get(leaf)
+    const adapter = this.leafAdapters.get(leaf)
+    const viewContent = container?.parentElement
+    if (!container || !adapter || !viewContent) return
+
+    const settings = this.getLeafSettings(leaf)
+    const view = adapter.view
+    const showRail =
+      settings.showOverviewRail &&
+      !settings.hideButtons &&
+      view instanceof MarkdownView &&
+      view.file !== null
+    const side = getAnchorSide(settings.anchor) ?? 'right'
+    container.toggleClass(
+      'scroll-control-beside-overview',
+      showRail && getAnchorSide(settings.anchor) !== null,
+    )
+    if (!showRail) return
+
+    // Keep clear of the scrollbar so it can still be dragged
+    const scrollEl = adapter.getScrollElement()
+    const scrollbarWidth = scrollEl
+      ? scrollEl.offsetWidth - scrollEl.clientWidth
+      : 0
+    const rail = viewContent.createDiv('scroll-control-overview-rail')
+    rail.addClass(`scroll-control-overview-${side}`)
+    rail.style.setProperty(
+      '--scroll-control-scrollbar-width',
+      `${scrollbarWidth}px`,
+    )
+    container.style.setProperty(
+      '--scroll-control-overview-offset',
+      `${scrollbarWidth + OVERVIEW_RAIL_WIDTH}px`,
+    )
+    this.leafOverviewRails.set(leaf, rail)
+
+    rail.createDiv('scroll-control-overview-viewport')
+    // Markers, the visible region and clicks share one scale, so a click
+    // lands where the rail shows it would
+    rail.addEventListener('click', (event) => {
+      const rect = rail.getBoundingClientRect()
+      this.scrollToPosition(
+        {
+          type: 'line',
+          line: getOverviewLine(view, (event.clientY - rect.top) / rect.height),
+        },
+        adapter,
+      )
+    })
+
+    this.collectOverviewMarkers(view).forEach((marker) => {
+      const markerEl = rail.createDiv('scroll-control-overview-marker')
+      markerEl.addClass(`scroll-control-overview-${marker.kind}`)
+      markerEl.style.setProperty(
+        '--scroll-control-marker-position',
+        `${getOverviewFraction(view, marker.line) * 100}%`,
+      )
+      markerEl.setAttribute('aria-label', marker.label)
+      markerEl.addEventListener('click', (event) => {
+        event.stopPropagation()
+        this.scrollToPosition({ type: 'line', line: marker.line }, adapter)
+      })
+    })
+    this.updateScrollState(leaf)
+  }
+
+  /**
+   * Gathers the overview rail markers of a note from the metadata cache,
+   * plus the matches of the query in Obsidian's search view, if any.
+   * @param view The Markdown view showing the note.
+   * @returns The markers, in no particular order.
+   */
+  private collectOverviewMarkers(view: MarkdownView): OverviewMarker[] {
+    const cache = view.file
+      ? this.app.metadataCache.getFileCache(view.file)
+      : null
+    const lines = view.getViewData().split('\n')
+    const lineText = (line: number) => lines[line]?.trim() ?? ''
+    const markers: OverviewMarker[] = []
+
+    cache?.headings?.forEach((heading) =>
+      markers.push({
+        kind: 'heading',
+        line: heading.position.start.line,
+        label: heading.heading,
+      }),
+    )
+    cache?.sections?.forEach((section) => {
+      const line = section.position.start.line
+      if (section.type === 'callout') {
+        markers.push({ kind: 'callout', line, label: lineText(line) })
+      } else if (section.type === 'code') {
+        markers.push({ kind: 'code', line, label: 'Code block' })
+      }
+    })
+    cache?.listItems?.forEach((item) => {
+      if (item.task !== undefined) {
+        const line = item.position.start.line
+        markers.push({ kind: 'task', line, label: lineText(line) })
+      }
+    })
+
+    // The search view's query isn't part of the metadata, but makes a
+    // useful overlay while searching
+    const searchLeaf = this.app.workspace.getLeavesOfType('search')[0]
+    const { query } = (searchLeaf?.getViewState().state ?? {}) as {
+      query?: unknown
+    }
+    const terms = typeof query === 'string' ? getSearchTerms(query) : []
+    if (terms.length > 0) {
+      let matches = 0
+      for (let line = 0; line < lines.length; line++) {
+        const text = lines[line]?.toLowerCase() ?? ''
+        if (terms.some((term) => text.includes(term))) {
+          markers.push({ kind: 'search', line, label: lineText(line) })
+          if (++matches >= MAX_SEARCH_MARKERS) break
+        }
+      }
+    }
+
+    return markers
+  }
+
+  /**
+   * Re-renders a leaf's buttons, e.g. after state shown on them changed.
+   * @param leaf The workspace leaf whose buttons should be re-rendered.
+   */
+  private refreshButtons(leaf: WorkspaceLeaf) {
+    const container = this.leafButtonContainers.get(leaf)
+    const adapter = this.leafAdapters.get(leaf)
+    if (!container || !adapter) return
+
+    this.createFloatingButtons(container, adapter)
+    this.updateScrollState(leaf)
+  }
+
+  /**
+   * Re-renders the buttons of every leaf.
+   */
+  private refreshAllButtons() {
+    this.leafButtonContainers.forEach((_, leaf) => this.refreshButtons(leaf))
+  }
+
+  /**
+   * Builds the public API exposed as `api` for other plugins.
+   * See api.d.ts for what each member does.
+   * @returns The API.
+   */
+  private createApi(): ScrollControlApi {
+    return {
+      version: 1,
+      scrollTo: (leaf, target) => {
+        const adapter = this.leafAdapters.get(leaf)
+        if (!adapter) return false
+        this.scrollToPosition(target, adapter)
+        return true
+      },
+      getButtonContainer: (leaf) => this.leafButtonContainers.get(leaf) ?? null,
+      registerButton: (button) => {
+        this.apiButtons.set(button.id, button)
+        this.refreshAllButtons()
+        return () => {
+          // Already replaced by a newer registration with the same ID
+          if (this.apiButtons.get(button.id) !== button) return
+          this.apiButtons.delete(button.id)
+          this.refreshAllButtons()
+        }
+      },
+      on: (name, callback) =>
+        this.apiEvents.on(name, callback as (...data: unknown[]) => unknown),
+      offref: (ref) => this.apiEvents.offref(ref),
+    }
+  }
+
+  /**
+   * Links a leaf for synchronized scrolling, or unlinks it if it already is.
+   * A newly linked leaf brings the other linked leaves to its position.
+   * @param leaf The workspace leaf to link or unlink.
+   */
+  toggleLeafLink(leaf: WorkspaceLeaf) {
+    const linked = !this.linkedLeaves.has(leaf)
+    if (linked) {
+      this.linkedLeaves.add(leaf)
+    } else {
+      this.linkedLeaves.delete(leaf)
+    }
+    const container = this.leafButtonContainers.get(leaf)
+    container?.toggleClass('scroll-control-linked', linked)
+    container
+      ?.querySelectorAll('.scroll-control-action-toggle-link')
+      .forEach((button) => button.setAttribute('aria-pressed', `${linked}`))
+    new Notice(
+      linked
+        ? 'Pane linked for synchronized scrolling'
+        : 'Pane unlinked from synchronized scrolling',
+    )
+
+    if (linked) {
+      this.syncScroll(leaf)
+    }
+  }
+
+  /**
+   * Returns the managed leaves that scroll along with a leaf: those the
+   * user linked (if the leaf is linked too) and, if enabled, those in the
+   * same Obsidian linked-tab group.
+   * @param leaf The leaf that scrolled.
+   * @returns The other leaves to keep in sync.
+   */
+  private getSyncedLeaves(leaf: WorkspaceLeaf): WorkspaceLeaf[] {
+    const linked = this.linkedLeaves.has(leaf)
+    const group = this.settings.syncLinkedTabs ? getLeafGroup(leaf) : null
+
+    return Array.from(this.leafAdapters.keys()).filter(
+      (other) =>
+        other !== leaf &&
+        ((linked && this.linkedLeaves.has(other)) ||
+          (group !== null && getLeafGroup(other) === group)),
+    )
+  }
+
+  /**
+   * Scrolls every leaf synced with the given leaf to the matching position.
+   * Scrolls caused by syncing are ignored for a moment so the synced leaves
+   * don't drive the source leaf in turn.
+   * @param source The leaf that scrolled.
+   */
+  private syncScroll(source: WorkspaceLeaf) {
+    if ((this.syncEchoes.get(source) ?? 0) > Date.now()) return
+    const sourceAdapter = this.leafAdapters.get(source)
+    if (!sourceAdapter) return
+
+    this.getSyncedLeaves(source).forEach((leaf) => {
+      const adapter = this.leafAdapters.get(leaf)
+      const target = adapter && this.getSyncTarget(sourceAdapter, adapter)
+      if (!adapter || !target) return
+
+      this.syncEchoes.set(leaf, Date.now() + SYNC_ECHO_WINDOW)
+      adapter.scrollTo(target, null)
+    })
+  }
+
+  /**
+   * Works out where a synced view should scroll to so that it matches the
+   * source view. Line and heading matching need Markdown on both sides and
+   * fall back to matching by percentage otherwise.
+   * @param source The adapter of the view that scrolled.
+   * @param target The adapter of the view to bring in line.
+   * @returns The target to scroll to, or null if the source has no
+   *   measurable position.
+   */
+  private getSyncTarget(
+    source: ScrollAdapter,
+    target: ScrollAdapter,
+  ): ScrollTarget | null {
+    const { syncScrollMode } = this.settings
+    if (
+      source.view instanceof MarkdownView &&
+      target.view instanceof MarkdownView
+    ) {
+      if (syncScrollMode === 'line') {
+        // Source and preview of the same note line up exactly
+        return { type: 'line', line: source.getScroll() }
+      }
+      if (syncScrollMode === 'heading') {
+        const line = this.getMatchingSectionLine(source.view, target.view)
+        if (line !== null) return { type: 'line', line }
+      }
+    }
+
+    const scrollEl = source.getScrollElement()
+    if (!scrollEl) return null
+    const scrollable = scrollEl.scrollHeight - scrollEl.clientHeight
+    return {
+      type: 'percent',
+      percent: scrollable > 0 ? (scrollEl.scrollTop / scrollable) * 100 : 0,
+    }
+  }
+
+  /**
+   * Finds the line in the target note that corresponds to the source note's
+   * position, by matching sections by their order rather than their text
+   * (so translations line up) and keeping the relative position within
+   * the section.
+   * @param source The view that scrolled.
+   * @param target The view to bring in line.
+   * @returns The line to scroll the target to, or null if the notes'
+   *   headings don't line up.
+   */
+  private getMatchingSectionLine(
+    source: MarkdownView,
+    target: MarkdownView,
+  ): number | null {
+    const headingLinesOf = (view: MarkdownView) =>
+      (view.file
+        ? (this.app.metadataCache.getFileCache(view.file)?.headings ?? [])
+        : []
+      ).map((heading) => heading.position.start.line)
+
+    const sourceHeadings = headingLinesOf(source)
+    const targetHeadings = headingLinesOf(target)
+    if (sourceHeadings.length === 0 || targetHeadings.length === 0) {
+      return null
+    }
+
+    // Section n starts at the nth heading; 0 is the text before the first
+    const currentLine = source.currentMode.getScroll()
+    const section = sourceHeadings.filter((line) => line <= currentLine).length
+    if (section > targetHeadings.length) return null
+
+    const sectionBounds = (headings: number[], view: MarkdownView) => ({
+      start: headings[section - 1] ?? 0,
+      end: headings[section] ?? view.editor.lineCount(),
+    })
+    const from = sectionBounds(sourceHeadings, source)
+    const to = sectionBounds(targetHeadings, target)
+    const progress =
+      from.end > from.start
+        ? (currentLine - from.start) / (from.end - from.start)
+        : 0
+
+    return to.start + progress * (to.end - to.start)
+  }
+
+  /**
+   * Creates the individual floating action buttons and appends them to the provided container.
+   * Button appearance, order, and actions are determined by the leaf's effective settings.
+   * @param container The parent HTMLElement to append the buttons to.
+   * @param adapter The scroll adapter of the view associated with this set of buttons.
+   */
+  private createFloatingButtons(
+    container: HTMLElement,
+    adapter: ScrollAdapter,
+  ) {
+    // Clear any existing buttons in the container first
+    container.empty()
+
+    // Profiles may override the global settings for this leaf
+    const settings = this.getLeafSettings(adapter.view.leaf)
+
+    // Heading navigation needs Markdown metadata
+    const isMarkdown = adapter.view instanceof MarkdownView
+    const isAutoScrolling = this.autoScroll?.leaf === adapter.view.leaf
+
+    const createButton = (config: ButtonConfig | ScrollControlButton) => {
+      // Buttons added through the API run their own callback
+      const action = 'action' in config ? config.action : null
+      const run = () => {
+        if ('onClick' in config) {
+          config.onClick(adapter.view.leaf)
+        } else {
+          this.runButtonAction(config.action, adapter)
+        }
+      }
+
+      const button = document.createElement('div')
+      // Behave like a native button for keyboards and screen readers
+      button.setAttribute('role', 'button')
+      button.tabIndex = 0
+      button.addClass('scroll-control-button')
+      button.addClass(`scroll-control-button-${config.id}`)
+      button.addClass(`scroll-control-button-${settings.buttonSize}`)
+      // Mark edge buttons so they can be hidden while already at that edge
+      if (action?.type === 'scroll') {
+        button.addClass(`scroll-control-action-${action.target.type}`)
+      } else if (action?.type === 'toggle-link') {
+        // Highlighted while the pane is linked
+        button.addClass('scroll-control-action-toggle-link')
+      } else if (action?.type === 'history') {
+        // Badge showing how many steps are available
+        button.addClass(`scroll-control-action-history-${action.direction}`)
+      }
+      if (this.shouldAnimate(settings)) {
+        button.addClass('scroll-control-button-animated')
+      }
+
+      const colors = this.getButtonColors(settings)
+      const iconColor = colors.icon ?? 'currentColor'
+
+      if (colors.background) {
+        button.style.setProperty(
+          '--scroll-control-custom-bg',
+          colors.background,
+        )
+      }
+      if (colors.icon) {
+        button.style.setProperty('--scroll-control-custom-color', colors.icon)
+      }
+      button.addClass(
+        colors.background || colors.icon
+          ? 'scroll-control-button-custom'
+          : 'scroll-control-button-default',
+      )
+
+      // The play control turns into a pause control while running
+      const isPauseControl = isAutoScrolling && action?.type === 'auto-scroll'
+      renderButtonIcon(
+        button,
+        isPauseControl ? 'pause' : config.icon,
+        iconColor,
+        this,
+      )
+      if (action?.type === 'history') {
+        button.createSpan('scroll-control-badge scroll-control-badge-empty')
+      }
+      button.setAttribute(
+        'aria-label',
+        isPauseControl ? 'Stop Auto-Scroll' : config.tooltip,
+      )
+      if (action?.type === 'auto-scroll') {
+        button.setAttribute('aria-pressed', `${isPauseControl}`)
+      } else if (action?.type === 'toggle-link') {
+        button.setAttribute(
+          'aria-pressed',
+          `${this.linkedLeaves.has(adapter.view.leaf)}`,
+        )
+      }
+      // Positioning (bottom, right) is now handled by the container's CSS
+
+      // Holding the button runs its secondary action instead
+      let longPressTimer: number | null = null
+      let longPressed = false
+      const longPressAction =
+        'action' in config ? config.longPressAction : undefined
+      if (settings.longPressActions && longPressAction) {
+        const cancelLongPress = () => {
+          if (longPressTimer !== null) {
+            window.clearTimeout(longPressTimer)
+            longPressTimer = null
+          }
+        }
+        button.addEventListener('pointerdown', () => {
+          longPressed = false
+          cancelLongPress()
+          longPressTimer = window.setTimeout(() => {
+            longPressTimer = null
+            // Holding still while dragging the buttons isn't a long press
+            if (container.hasClass('scroll-control-dragging')) return
+            longPressed = true
+            this.runButtonAction(longPressAction, adapter)
+          }, LONG_PRESS_DELAY)
+        })
+        button.addEventListener('pointerup', cancelLongPress)
+        button.addEventListener('pointerleave', cancelLongPress)
+        button.addEventListener('pointercancel', cancelLongPress)
+        // Mobile browsers open a context menu on long press
+        button.addEventListener('contextmenu', (event) =>
+          event.preventDefault(),
+        )
+      }
+
+      button.addEventListener('click', (event) => {
+        event.stopPropagation() // Prevent clicks bubbling up
+        if (longPressed) {
+          longPressed = false
+          return
+        }
+        run()
+      })
+      button.addEventListener('keydown', (event) => {
+        if (event.key === 'Escape') {
+          event.preventDefault()
+          this.app.workspace.setActiveLeaf(adapter.view.leaf, { focus: true })
+          return
+        }
+        if (event.key !== 'Enter' && event.key !== ' ') return
+        // Keep Space from scrolling the view and Enter from reaching the editor
+        event.preventDefault()
+        event.stopPropagation()
+        run()
+      })
+      // Append to the provided container, not document.body
+      container.appendChild(button)
+
+      if (isPauseControl) {
+        container.createDiv({
+          cls: 'scroll-control-auto-scroll-speed',
+          text: this.formatAutoScrollSpeed(),
+        })
+      }
+    }
+
+    // Canvases pan rather than scroll, so they can't auto-scroll
+    const isCanvas = adapter instanceof CanvasScrollAdapter
+    const buttons = settings.buttons.filter(
+      (config) =>
+        config.enabled &&
+        (isMarkdown || !isMarkdownOnlyAction(config.action)) &&
+        (!isCanvas || config.action.type !== 'auto-scroll'),
+    )
+    if (settings.invertButtonOrder) {
+      buttons.reverse()
+    }
+    buttons.forEach(createButton)
+    // Buttons other plugins added through the API go after the user's own
+    this.apiButtons.forEach((button) => {
+      if (button.isVisible?.(adapter.view.leaf) ?? true) {
+        createButton(button)
+      }
+    })
+
+    if (settings.progressIndicator !== 'none') {
+      this.createProgressIndicator(
+        container,
+        settings.progressIndicator,
+        settings.buttonSize,
+      )
+    }
+
+    this.renderMarkRail(container, adapter)
+    this.updateHistoryBadges(adapter.view.leaf)
+  }
+
+  /**
+   * Creates the plugin's stylesheet element and appends it to the document head.
+   * Should be called once during plugin load.
+   */
+  private addStyle() {
+    this.styleEl?.remove()
+
+    this.styleEl = document.createElement('style')
+    this.styleEl.setAttribute('id', 'scroll-control-styles')
+    document.head.appendChild(this.styleEl)
+    this.updateStyle()
+  }
+
+  /**
+   * Updates the content of the plugin's stylesheet based on current settings.
+   * Defines CSS variables and rules for button container and button appearance/positioning.
+   */
+  private updateStyle() {
+    if (!this.styleEl) {
+      return
+    }
+
+    const {
+      horizontalPadding,
+      verticalPadding,
+      buttonSpacing,
+      animationSpeed,
+      buttonOpacity,
+    } = this.settings
+
+    const css = `
+			:root {
+				--scroll-control-horizontal-padding: ${horizontalPadding}px;
+				--scroll-control-vertical-padding: ${verticalPadding}px;
+				--scroll-control-button-spacing: ${buttonSpacing}px;
+				--scroll-control-animation-speed: ${animationSpeed}ms;
+				--scroll-control-button-opacity: ${buttonOpacity / 100};
+			}
+
+			/* Ensure the view content area establishes a positioning context */
+			.view-content {
+				position: relative;
+			}
+
+			/* Remove rules targeting specific scroll containers directly */
+			/* .markdown-source-view .cm-scroller,
+			.markdown-preview-view {
+				position: relative; 
+			} */
+
+			.scroll-control-button-container {
+				position: absolute;
+				/* Use a high z-index, leveraging Obsidian's layers if possible */
+				z-index: var(--layer-popover, 100); /* Keep high fallback */
+				/* Always use flex display, visibility controlled by opacity/pointer-events */
+				display: flex;
+				opacity: 0; /* Hidden by default via opacity */
+				pointer-events: none; /* Non-interactive by default */
+				transition: opacity 0.2s ease-in-out; /* Add transition for smoother show/hide */
+				flex-direction: column;
+				gap: var(--scroll-control-button-spacing);
+				align-items: flex-end; /* Align buttons to the right */
+			}
+
+			/* Anchor positions, using logical properties for left/right */
+			.scroll-control-anchor-top-left,
+			.scroll-control-anchor-top-center,
+			.scroll-control-anchor-top-right {
+				inset-block-start: var(--scroll-control-vertical-padding);
+			}
+			.scroll-control-anchor-bottom-left,
+			.scroll-control-anchor-bottom-center,
+			.scroll-control-anchor-bottom-right {
+				inset-block-end: var(--scroll-control-vertical-padding);
+			}
+			.scroll-control-anchor-middle-left,
+			.scroll-control-anchor-middle-right {
+				/* Center vertically without a transform */
+				inset-block: 0;
+				margin-block: auto;
+				height: fit-content;
+			}
+			.scroll-control-anchor-top-left,
+			.scroll-control-anchor-middle-left,
+			.scroll-control-anchor-bottom-left {
+				/* The pinned inset is set when following the text column */
+				inset-inline-start: var(--scroll-control-pinned-inset, var(--scroll-control-horizontal-padding));
+				align-items: flex-start;
+			}
+			.scroll-control-anchor-top-right,
+			.scroll-control-anchor-middle-right,
+			.scroll-control-anchor-bottom-right {
+				inset-inline-end: var(--scroll-control-pinned-inset, var(--scroll-control-horizontal-padding));
+				align-items: flex-end;
+			}
+			.scroll-control-anchor-top-center,
+			.scroll-control-anchor-bottom-center {
+				inset-inline: 0;
+				margin-inline: auto;
+				width: fit-content;
+				align-items: center;
+			}
+
+			/* A dragged position replaces the anchor and padding */
+			.scroll-control-button-container.scroll-control-dragged {
+				inset: var(--scroll-control-drag-top, auto) var(--scroll-control-drag-right, auto) var(--scroll-control-drag-bottom, auto) var(--scroll-control-drag-left, auto);
+				margin: 0;
+				width: fit-content;
+				height: fit-content;
+			}
+
+			.scroll-control-button-container.scroll-control-horizontal,
+			.scroll-control-preview-wrapper.scroll-control-horizontal {
+				flex-direction: row;
+				align-items: center;
+			}
+
+			/* Remove the rule relying on .is-active for display */
+			/* .workspace-leaf.is-active .scroll-control-button-container {
+				display: flex;
+			} */
+
+			.scroll-control-button {
+				pointer-events: auto; /* Buttons within container should be clickable */
+				background-color: var(--background-secondary); /* Use secondary background by default */
+				color: var(--text-normal); /* Default icon color */
+				border-radius: 50%;
+				display: flex;
+				align-items: center;
+				justify-content: center;
+				cursor: pointer;
+				box-shadow: 0 2px 5px var(--background-modifier-box-shadow);
+				opacity: var(--scroll-control-button-opacity, 0.7);
+				filter: brightness(1.25); /* Lighten default background more */
+				transition: all 0.2s ease;
+				user-select: none; /* Prevent text selection */
+			}
+
+			.scroll-control-button-small {
+				width: 24px;
+				height: 24px;
+				padding: 4px;
+			}
+			.scroll-control-button-small svg {
+				width: 16px; height: 16px;
+			}
+
+			.scroll-control-button-medium {
+				width: 32px;
+				height: 32px;
+				padding: 8px;
+			}
+			.scroll-control-button-medium svg {
+				width: 20px; height: 20px;
+			}
+
+			.scroll-control-button-large {
+				width: 40px;
 				height: 40px;
 				padding: 10px;
 			}
@@ -538,8 +5380,8 @@ export default class ScrollControlPlugin extends Plugin {
 				margin: 10px 0;
 				min-height: 100px;
 				display: flex;
-				align-items: center;
-				justify-content: center;
+				align-items: var(--scroll-control-preview-align, center);
+				justify-content: var(--scroll-control-preview-justify, center);
 				position: relative;
 			}
 
@@ -547,7 +5389,7 @@ export default class ScrollControlPlugin extends Plugin {
 				display: flex;
 				flex-direction: column;
 				gap: var(--scroll-control-preview-gap, var(--scroll-control-button-spacing));
-				align-items: flex-end;
+				align-items: var(--scroll-control-preview-align, flex-end);
 			}
 
 			.scroll-control-preview-button {
@@ -561,17 +5403,26 @@ export default class ScrollControlPlugin extends Plugin {
 
   /**
    * Creates an SVG element from an SVG string using DOM API.
+   * Icons can come from imported settings, so only shape elements are
+   * kept, and event handlers and links are stripped.
    * @param svgString - The SVG markup as a string.
    * @param strokeColor - The stroke color to apply to the SVG.
-   * @returns The created SVG element.
+   * @returns The created SVG element, or null if the markup is invalid.
    */
   public createSVGFromString(
     svgString: string,
     strokeColor: string,
-  ): SVGElement {
+  ): SVGElement | null {
     const parser = new DOMParser()
     const svgDoc = parser.parseFromString(svgString, 'image/svg+xml')
-    const svgElement = svgDoc.documentElement as unknown as SVGElement
+    if (
+      svgDoc.querySelector('parsererror') ||
+      !(svgDoc.documentElement instanceof SVGSVGElement)
+    ) {
+      return null
+    }
+    const svgElement = svgDoc.documentElement
+    sanitizeSvg(svgElement)
 
     // Set stroke color if not using currentColor
     if (strokeColor !== 'currentColor') {
@@ -581,38 +5432,384 @@ export default class ScrollControlPlugin extends Plugin {
     return svgElement
   }
 
-  /**
-   * Calculates contrast color (black or white) for a given hex color.
-   * @param hexColor - The background color in hex format (e.g., "#RRGGBB").
-   * @returns "#000000" (black) or "#FFFFFF" (white).
-   */
-  public getContrastColor(hexColor: string): string {
-    if (!hexColor || hexColor.length < 4) {
-      return '#000000' // Default to black for invalid input
-    }
+  /**
+   * Picks black or white, whichever has the higher WCAG contrast ratio
+   * against a color. Translucent colors are judged as they appear over
+   * the theme's background.
+   * @param color - The background color, as any CSS color.
+   * @returns "#000000" (black) or "#FFFFFF" (white).
+   */
+  public getContrastColor(color: string): string {
+    let rgba = parseCssColor(color)
+    if (!rgba) {
+      return '#000000' // Default to black for invalid input
+    }
+    if (rgba[3] < 1) {
+      const background = parseCssColor('var(--background-primary)') ?? [
+        255, 255, 255, 1,
+      ]
+      rgba = blendColors(rgba, background)
+    }
+
+    const black: RGBA = [0, 0, 0, 1]
+    const white: RGBA = [255, 255, 255, 1]
+    return getContrastRatio(rgba, black) >= getContrastRatio(rgba, white)
+      ? '#000000'
+      : '#FFFFFF'
+  }
+
+  /**
+   * Works out the button colors for the current theme mode.
+   * @param settings The effective settings.
+   * @returns The background and icon colors, each null where the theme's
+   *   own color applies.
+   */
+  getButtonColors(settings: ScrollControlSettings): {
+    background: string | null
+    icon: string | null
+  } {
+    const isDark = document.body.hasClass('theme-dark')
+    const background = settings.useCustomColor
+      ? (isDark && settings.buttonColorDark) || settings.buttonColor
+      : null
+    const icon =
+      settings.iconColor ||
+      (background ? this.getContrastColor(background) : null)
+    return { background, icon }
+  }
+}
+
+/**
+ * The flat list of action choices offered in the button editor, with an
+ * optional argument placeholder for actions that need one.
+ */
+const BUTTON_ACTION_KINDS = {
+  top: { label: 'Scroll to top', argument: null },
+  bottom: { label: 'Scroll to bottom', argument: null },
+  'page-up': { label: 'Scroll up one page', argument: null },
+  'page-down': { label: 'Scroll down one page', argument: null },
+  percent: { label: 'Scroll to percentage', argument: '50' },
+  'previous-heading': { label: 'Previous heading', argument: null },
+  'next-heading': { label: 'Next heading', argument: null },
+  'jump-back': { label: 'Jump back', argument: null },
+  command: { label: 'Run command', argument: 'markdown:toggle-preview' },
+  uri: { label: 'Open URI', argument: 'obsidian://...' },
+  'toggle-link': { label: 'Link pane for synced scrolling', argument: null },
+  'auto-scroll': { label: 'Start/stop auto-scroll', argument: null },
+  'set-mark': { label: 'Set mark', argument: null },
+  'history-back': { label: 'Scroll back (history)', argument: null },
+  'history-forward': { label: 'Scroll forward (history)', argument: null },
+} as const
+
+type ButtonActionKind = keyof typeof BUTTON_ACTION_KINDS
+
+/**
+ * Checks whether a string is one of the editor's action choices.
+ * @param value The value to check.
+ * @returns True if the value is a ButtonActionKind.
+ */
+function isButtonActionKind(value: string): value is ButtonActionKind {
+  return value in BUTTON_ACTION_KINDS
+}
+
+/**
+ * Maps a button action to its choice in the button editor.
+ * @param action The action to describe.
+ * @returns The matching editor choice.
+ */
+function getActionKind(action: ButtonAction): ButtonActionKind {
+  switch (action.type) {
+    case 'scroll':
+      switch (action.target.type) {
+        case 'page':
+          return action.target.direction === 'up' ? 'page-up' : 'page-down'
+        case 'line':
+          // Line targets can't be configured here; closest match
+          return 'top'
+        default:
+          return action.target.type
+      }
+    case 'heading':
+      return action.direction === 'previous'
+        ? 'previous-heading'
+        : 'next-heading'
+    case 'history':
+      return `history-${action.direction}`
+    default:
+      return action.type
+  }
+}
+
+/**
+ * Returns the argument shown in the button editor for an action.
+ * @param action The action to describe.
+ * @returns The percentage, command ID or URI, or '' if there is none.
+ */
+function getActionArgument(action: ButtonAction): string {
+  switch (action.type) {
+    case 'scroll':
+      return action.target.type === 'percent' ? `${action.target.percent}` : ''
+    case 'command':
+      return action.commandId
+    case 'uri':
+      return action.uri
+    default:
+      return ''
+  }
+}
+
+/**
+ * Builds a button action from a choice in the button editor.
+ * @param kind The chosen action.
+ * @param argument The percentage, command ID or URI, where applicable.
+ * @returns The button action.
+ */
+function createButtonAction(
+  kind: ButtonActionKind,
+  argument: string,
+): ButtonAction {
+  switch (kind) {
+    case 'top':
+    case 'bottom':
+      return { type: 'scroll', target: { type: kind } }
+    case 'page-up':
+    case 'page-down':
+      return {
+        type: 'scroll',
+        target: { type: 'page', direction: kind === 'page-up' ? 'up' : 'down' },
+      }
+    case 'percent':
+      return {
+        type: 'scroll',
+        target: { type: 'percent', percent: Number(argument) || 0 },
+      }
+    case 'previous-heading':
+      return { type: 'heading', direction: 'previous' }
+    case 'next-heading':
+      return { type: 'heading', direction: 'next' }
+    case 'jump-back':
+      return { type: 'jump-back' }
+    case 'command':
+      return { type: 'command', commandId: argument }
+    case 'uri':
+      return { type: 'uri', uri: argument }
+    case 'toggle-link':
+      return { type: 'toggle-link' }
+    case 'auto-scroll':
+      return { type: 'auto-scroll' }
+    case 'set-mark':
+      return { type: 'set-mark' }
+    case 'history-back':
+    case 'history-forward':
+      return {
+        type: 'history',
+        direction: kind === 'history-back' ? 'back' : 'forward',
+      }
+  }
+}
+
+/**
+ * Options for NumberPromptModal.
+ */
+interface NumberPromptOptions {
+  /** Title shown at the top of the modal. */
+  title: string
+  /** Placeholder describing the accepted range. */
+  placeholder: string
+  /** Smallest accepted value. */
+  min: number
+  /** Largest accepted value. */
+  max: number
+  /** Called with the entered value once it is submitted. */
+  onSubmit: (value: number) => void
+}
+
+/**
+ * Small prompt that asks for a number within a range, e.g. a percentage
+ * or line number to scroll to.
+ */
+class NumberPromptModal extends Modal {
+  private options: NumberPromptOptions
+
+  constructor(app: App, options: NumberPromptOptions) {
+    super(app)
+    this.options = options
+  }
+
+  override onOpen() {
+    const { contentEl, options } = this
+    this.titleEl.setText(options.title)
+
+    const input = contentEl.createEl('input', {
+      type: 'number',
+      cls: 'scroll-control-number-prompt',
+      attr: {
+        min: options.min,
+        max: options.max,
+        placeholder: options.placeholder,
+      },
+    })
+    const errorEl = contentEl.createDiv('scroll-control-number-prompt-error')
+
+    const submit = () => {
+      const value = Number(input.value)
+      if (input.value === '' || !Number.isFinite(value)) {
+        errorEl.setText('Please enter a number.')
+        return
+      }
+      if (value < options.min || value > options.max) {
+        errorEl.setText(
+          `Please enter a number between ${options.min} and ${options.max}.`,
+        )
+        return
+      }
+      this.close()
+      options.onSubmit(value)
+    }
+
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        event.preventDefault()
+        submit()
+      }
+    })
+
+    new Setting(contentEl).addButton((button) =>
+      button.setButtonText('Scroll').setCta().onClick(submit),
+    )
+
+    input.focus()
+  }
+
+  override onClose() {
+    this.contentEl.empty()
+  }
+}
+
+/**
+ * Options for MarkKeyModal.
+ */
+interface MarkKeyOptions {
+  /** Title shown at the top of the modal. */
+  title: string
+  /** The note's marks, listed so they can also be picked with the mouse. */
+  marks: ScrollMark[]
+  /** Called with the chosen mark name. */
+  onChoose: (name: string) => void
+}
+
+/**
+ * Vim-style prompt that waits for a single letter or digit naming a mark.
+ */
+class MarkKeyModal extends Modal {
+  private options: MarkKeyOptions
+
+  constructor(app: App, options: MarkKeyOptions) {
+    super(app)
+    this.options = options
+  }
+
+  override onOpen() {
+    const { contentEl, options } = this
+    this.titleEl.setText(options.title)
+    contentEl.createDiv({
+      cls: 'scroll-control-mark-hint',
+      text: 'Press a letter or digit.',
+    })
+
+    const list = contentEl.createDiv('scroll-control-mark-list')
+    options.marks.forEach((mark) => {
+      const item = list.createDiv('scroll-control-mark-item')
+      item.createSpan({ cls: 'scroll-control-mark-name', text: mark.name })
+      item.createSpan({ text: mark.text })
+      item.addEventListener('click', () => this.choose(mark.name))
+    })
+
+    // Any modifiers, so Shift can be used for upper-case names
+    this.scope.register(null, null, (event) => {
+      if (!MARK_NAME_PATTERN.test(event.key)) return
+      this.choose(event.key)
+      return false
+    })
+  }
+
+  override onClose() {
+    this.contentEl.empty()
+  }
+
+  /**
+   * Closes the modal and reports the chosen mark name.
+   * @param name The chosen name.
+   */
+  private choose(name: string) {
+    this.close()
+    this.options.onChoose(name)
+  }
+}
+
+/**
+ * Prompt for settings to import, pasted as JSON or read from a file.
+ */
+class ImportSettingsModal extends Modal {
+  /** Imports the parsed data; errors it throws are shown in the modal. */
+  private onImport: (data: unknown) => Promise<void>
+
+  constructor(app: App, onImport: (data: unknown) => Promise<void>) {
+    super(app)
+    this.onImport = onImport
+  }
+
+  override onOpen() {
+    const { contentEl } = this
+    this.titleEl.setText('Import Settings')
+
+    const textarea = contentEl.createEl('textarea', {
+      cls: 'scroll-control-import-text',
+      attr: { placeholder: 'Paste exported settings here', rows: 12 },
+    })
+    const errorEl = contentEl.createDiv('scroll-control-number-prompt-error')
+
+    const fileInput = contentEl.createEl('input', {
+      type: 'file',
+      cls: 'scroll-control-setting-hidden',
+      attr: { accept: '.json,application/json' },
+    })
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+      void file.text().then((text) => {
+        textarea.value = text
+        errorEl.setText('')
+      })
+    })
 
-    // Expand shorthand hex (e.g., "#03F" -> "#0033FF")
-    if (hexColor.length === 4) {
-      hexColor =
-        '#' +
-        hexColor[1] +
-        hexColor[1] +
-        hexColor[2] +
-        hexColor[2] +
-        hexColor[3] +
-        hexColor[3]
+    const submit = () => {
+      let data: unknown
+      try {
+        data = JSON.parse(textarea.value)
+      } catch {
+        errorEl.setText("That isn't valid JSON.")
+        return
+      }
+      this.onImport(data).then(
+        () => this.close(),
+        (error: Error) => errorEl.setText(error.message),
+      )
     }
 
-    // Convert hex to RGB
-    const r = parseInt(hexColor.substring(1, 3), 16)
-    const g = parseInt(hexColor.substring(3, 5), 16)
-    const b = parseInt(hexColor.substring(5, 7), 16)
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText('Choose File…').onClick(() => fileInput.click()),
+      )
+      .addButton((button) =>
+        button.setButtonText('Import').setCta().onClick(submit),
+      )
 
-    // Calculate luminance using the WCAG formula
-    const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255
+    textarea.focus()
+  }
 
-    // Return black or white based on luminance
-    return luminance > 0.5 ? '#000000' : '#FFFFFF'
+  override onClose() {
+    this.contentEl.empty()
   }
 }
 
@@ -646,90 +5843,579 @@ class ScrollControlSettingTab extends PluginSettingTab {
     // Add CSS class for preview container styling
     this.previewContainer.addClass('scroll-control-settings-preview')
 
-    // --- General Settings ---
-    containerEl.createEl('h3', { text: 'General Appearance' })
+    // --- General Settings ---
+    containerEl.createEl('h3', { text: 'General Appearance' })
+
+    // Button Size
+    new Setting(containerEl)
+      .setName('Button Size')
+      .setDesc('Choose the size of the scroll buttons')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('small', 'Small')
+          .addOption('medium', 'Medium')
+          .addOption('large', 'Large')
+          .setValue(this.plugin.settings.buttonSize)
+          .onChange(async (value: string) => {
+            if (value === 'small' || value === 'medium' || value === 'large') {
+              this.plugin.settings.buttonSize = value
+              this.updatePreviewButtons()
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+
+    // Custom Color
+    new Setting(containerEl)
+      .setName('Use Custom Color')
+      .setDesc('Enable custom color for buttons')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useCustomColor)
+          .onChange(async (value) => {
+            this.plugin.settings.useCustomColor = value
+            toggleColorSettings(value)
+            this.updatePreviewButtons()
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    // Colors accept any CSS color; invalid input is flagged, not saved
+    const addColorText = (
+      setting: Setting,
+      key: 'buttonColor' | 'buttonColorDark' | 'iconColor',
+      placeholder: string,
+    ) =>
+      setting.addText((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings[key])
+          .onChange(async (value) => {
+            const color = value.trim()
+            const valid = color === '' || CSS.supports('color', color)
+            text.inputEl.toggleClass('scroll-control-input-invalid', !valid)
+            if (!valid) return
+            this.plugin.settings[key] =
+              key === 'buttonColor' && color === ''
+                ? DEFAULT_SETTINGS.buttonColor
+                : color
+            this.updatePreviewButtons()
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    const colorSettings = [
+      addColorText(
+        new Setting(containerEl)
+          .setName('Button Color')
+          .setDesc(
+            'Any CSS color, e.g. #4a90d9, rgba(0, 0, 0, 0.5), teal or var(--interactive-accent)',
+          ),
+        'buttonColor',
+        DEFAULT_SETTINGS.buttonColor,
+      ),
+      addColorText(
+        new Setting(containerEl)
+          .setName('Dark Mode Button Color')
+          .setDesc('Used while a dark theme is active'),
+        'buttonColorDark',
+        'Same as above',
+      ),
+    ]
+    const toggleColorSettings = (visible: boolean) =>
+      colorSettings.forEach((setting) => {
+        setting.settingEl.toggleClass('scroll-control-setting-visible', visible)
+        setting.settingEl.toggleClass('scroll-control-setting-hidden', !visible)
+      })
+    // Hide/show based on the toggle state without redrawing the whole tab
+    toggleColorSettings(this.plugin.settings.useCustomColor)
+
+    addColorText(
+      new Setting(containerEl)
+        .setName('Icon Color')
+        .setDesc(
+          'Leave empty to use black or white, whichever contrasts best with the button',
+        ),
+      'iconColor',
+      'Automatic',
+    )
+
+    new Setting(containerEl)
+      .setName('Button Opacity')
+      .setDesc('Opacity of the buttons while not hovered (in percent)')
+      .addSlider((slider) =>
+        slider
+          .setLimits(10, 100, 5)
+          .setValue(this.plugin.settings.buttonOpacity)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.buttonOpacity = value
+            this.updatePreviewButtons()
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    // Animations
+    new Setting(containerEl)
+      .setName('Use Animations')
+      .setDesc('Enable button animations and animated scrolling')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useAnimations)
+          .onChange(async (value) => {
+            this.plugin.settings.useAnimations = value
+            // Directly toggle visibility of the speed and easing settings
+            for (const setting of [
+              animationSpeedSetting,
+              scrollEasingSetting,
+            ]) {
+              setting.settingEl.toggleClass(
+                'scroll-control-setting-visible',
+                value,
+              )
+              setting.settingEl.toggleClass(
+                'scroll-control-setting-hidden',
+                !value,
+              )
+            }
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Respect Reduced Motion')
+      .setDesc(
+        "Turn animations and smooth scrolling off when your system's reduced-motion setting is on",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.respectReducedMotion)
+          .onChange(async (value) => {
+            this.plugin.settings.respectReducedMotion = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    // Animation Speed
+    const animationSpeedSetting = new Setting(containerEl)
+      .setName('Animation Speed')
+      .setDesc(
+        'Duration of button animations and of scrolling one page (in milliseconds). Longer scrolls take somewhat longer',
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(100, 1000, 100)
+          .setValue(this.plugin.settings.animationSpeed)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.animationSpeed = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    // Scroll Easing
+    const scrollEasingSetting = new Setting(containerEl)
+      .setName('Scroll Easing')
+      .setDesc('How animated scrolls speed up and slow down')
+      .addDropdown((dropdown) => {
+        for (const [easing, label] of Object.entries(SCROLL_EASING_LABELS)) {
+          dropdown.addOption(easing, label)
+        }
+        dropdown
+          .setValue(this.plugin.settings.scrollEasing)
+          .onChange(async (value: string) => {
+            if (isScrollEasing(value)) {
+              this.plugin.settings.scrollEasing = value
+              await this.plugin.saveSettings()
+            }
+          })
+      })
+
+    // Hide/show based on the toggle state without redrawing the whole tab
+    for (const setting of [animationSpeedSetting, scrollEasingSetting]) {
+      setting.settingEl.toggleClass(
+        'scroll-control-setting-visible',
+        this.plugin.settings.useAnimations,
+      )
+      setting.settingEl.toggleClass(
+        'scroll-control-setting-hidden',
+        !this.plugin.settings.useAnimations,
+      )
+    }
+
+    // Button List
+    containerEl.createEl('h3', { text: 'Buttons' })
+    this.displayButtons(containerEl.createDiv())
+
+    new Setting(containerEl)
+      .setName('Scroll Progress Indicator')
+      .setDesc('Show how far through the note you are next to the buttons')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('none', 'None')
+          .addOption('ring', 'Ring')
+          .addOption('bar', 'Bar')
+          .setValue(this.plugin.settings.progressIndicator)
+          .onChange(async (value: string) => {
+            if (value === 'none' || value === 'ring' || value === 'bar') {
+              this.plugin.settings.progressIndicator = value
+              this.updatePreviewButtons()
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Overview Rail')
+      .setDesc(
+        'Show a thin rail along the pane edge with markers for headings, callouts, code blocks, tasks and search matches, and the visible part of the note. Click it to jump.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showOverviewRail)
+          .onChange(async (value) => {
+            this.plugin.settings.showOverviewRail = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('End of Document')
+      .setDesc(
+        'Where the last line lands when scrolling to the bottom of a note. Centering keeps it at eye level, like typewriter scrolling.',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('edge', 'Bottom edge')
+          .addOption('center', 'Center of the view')
+          .setValue(this.plugin.settings.endOfDocumentAlignment)
+          .onChange(async (value: string) => {
+            if (value === 'edge' || value === 'center') {
+              this.plugin.settings.endOfDocumentAlignment = value
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Cursor on Jump')
+      .setDesc(
+        'Whether jumping to the top, bottom or a heading moves the cursor there, so you can start typing right away, or only scrolls and keeps your selection (editing mode only). The Extend Selection to Top/Bottom commands select up to the start or end instead.',
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('keep', 'Scroll only, keep selection')
+          .addOption('follow', 'Move cursor along')
+          .setValue(this.plugin.settings.cursorBehavior)
+          .onChange(async (value: string) => {
+            if (value === 'keep' || value === 'follow') {
+              this.plugin.settings.cursorBehavior = value
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+
+    containerEl.createEl('h3', { text: 'Auto-Hide' })
+
+    new Setting(containerEl)
+      .setName('Hide Buttons at Edges')
+      .setDesc(
+        'Hide Scroll to Top while at the top and Scroll to Bottom while at the bottom',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.hideButtonsAtEdges)
+          .onChange(async (value) => {
+            this.plugin.settings.hideButtonsAtEdges = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Fade Out When Idle')
+      .setDesc('Hide the buttons after a while without scrolling')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoHideWhenIdle)
+          .onChange(async (value) => {
+            this.plugin.settings.autoHideWhenIdle = value
+            idleSettings.forEach((setting) => {
+              setting.settingEl.toggleClass(
+                'scroll-control-setting-visible',
+                value,
+              )
+              setting.settingEl.toggleClass(
+                'scroll-control-setting-hidden',
+                !value,
+              )
+            })
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    const idleSettings = [
+      new Setting(containerEl)
+        .setName('Idle Delay')
+        .setDesc('Seconds without scrolling before the buttons fade out')
+        .addSlider((slider) =>
+          slider
+            .setLimits(1, 30, 1)
+            .setValue(this.plugin.settings.autoHideDelay)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.autoHideDelay = value
+              await this.plugin.saveSettings()
+            }),
+        ),
+      new Setting(containerEl)
+        .setName('Reveal When Mouse Is Near')
+        .setDesc(
+          'Show faded-out buttons again when the mouse approaches the edge of the pane they are on',
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.revealOnMouseNear)
+            .onChange(async (value) => {
+              this.plugin.settings.revealOnMouseNear = value
+              await this.plugin.saveSettings()
+            }),
+        ),
+    ]
+
+    // Hide/show based on the toggle state without redrawing the whole tab
+    idleSettings.forEach((setting) => {
+      setting.settingEl.toggleClass(
+        'scroll-control-setting-visible',
+        this.plugin.settings.autoHideWhenIdle,
+      )
+      setting.settingEl.toggleClass(
+        'scroll-control-setting-hidden',
+        !this.plugin.settings.autoHideWhenIdle,
+      )
+    })
+
+    containerEl.createEl('h3', { text: 'Supported Views' })
+
+    new Setting(containerEl)
+      .setName('Enabled View Types')
+      .setDesc(
+        'View types that get scroll buttons, separated by commas or new lines. ' +
+          'Built-in types include markdown, pdf, canvas, bases, image, audio and video; ' +
+          'other plugins may add their own.',
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.enabledViewTypes.join(', '))
+          .setValue(this.plugin.settings.enabledViewTypes.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.enabledViewTypes = value
+              .split(/[\s,]+/)
+              .filter((viewType) => viewType.length > 0)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    containerEl.createEl('h3', { text: 'Mobile & Touch' })
+
+    const { mobileOverrides } = this.plugin.settings
+    const mobileSettings: Setting[] = []
+    const toggleMobileSettings = (visible: boolean) =>
+      mobileSettings.forEach((setting) => {
+        setting.settingEl.toggleClass('scroll-control-setting-visible', visible)
+        setting.settingEl.toggleClass('scroll-control-setting-hidden', !visible)
+      })
+
+    new Setting(containerEl)
+      .setName('Mobile Layout')
+      .setDesc(
+        'On phones and tablets, use the layout below instead of the one above: bigger buttons within reach of your thumb, clear of the mobile toolbar. Profiles still apply on top.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useMobileLayout)
+          .onChange(async (value) => {
+            this.plugin.settings.useMobileLayout = value
+            toggleMobileSettings(value)
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    mobileSettings.push(
+      new Setting(containerEl)
+        .setName('Mobile Button Size')
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('small', 'Small')
+            .addOption('medium', 'Medium')
+            .addOption('large', 'Large')
+            .setValue(
+              mobileOverrides.buttonSize ?? this.plugin.settings.buttonSize,
+            )
+            .onChange(async (value: string) => {
+              if (
+                value === 'small' ||
+                value === 'medium' ||
+                value === 'large'
+              ) {
+                mobileOverrides.buttonSize = value
+                await this.plugin.saveSettings()
+              }
+            }),
+        ),
+      new Setting(containerEl)
+        .setName('Mobile Anchor')
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(ANCHOR_LABELS)
+            .setValue(mobileOverrides.anchor ?? this.plugin.settings.anchor)
+            .onChange(async (value: string) => {
+              if (value in ANCHOR_LABELS) {
+                mobileOverrides.anchor = value as ButtonAnchor
+                await this.plugin.saveSettings()
+              }
+            }),
+        ),
+      new Setting(containerEl)
+        .setName('Mobile Vertical Padding')
+        .setDesc(
+          'Distance from the top or bottom edge (in pixels); leave room for the mobile toolbar',
+        )
+        .addSlider((slider) =>
+          slider
+            .setLimits(...MOBILE_VERTICAL_PADDING_RANGE, 4)
+            .setValue(
+              mobileOverrides.verticalPadding ??
+                this.plugin.settings.verticalPadding,
+            )
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              mobileOverrides.verticalPadding = value
+              await this.plugin.saveSettings()
+            }),
+        ),
+    )
+    toggleMobileSettings(this.plugin.settings.useMobileLayout)
+
+    new Setting(containerEl)
+      .setName('Long-Press Actions')
+      .setDesc(
+        'Hold a button down for its secondary action, e.g. hold Scroll to Top for the previous heading. Set them per button above.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.longPressActions)
+          .onChange(async (value) => {
+            this.plugin.settings.longPressActions = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Edge Swipe Gestures')
+      .setDesc(
+        'On touch screens, swipe down along the pane edge on the buttons side to jump to the top, or up to jump to the bottom.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.edgeSwipeGestures)
+          .onChange(async (value) => {
+            this.plugin.settings.edgeSwipeGestures = value
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    containerEl.createEl('h3', { text: 'Auto-Scroll' })
+
+    new Setting(containerEl)
+      .setName('Auto-Scroll Speed')
+      .setDesc(
+        'How fast the view scrolls in auto-scroll (teleprompter) mode. Auto-scroll stops when you scroll or press a key; use the speed commands to adjust it while running.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.autoScrollSpeed))
+          .setValue(String(this.plugin.settings.autoScrollSpeed))
+          .onChange(async (value) => {
+            const speed = Number(value)
+            if (
+              value.trim() !== '' &&
+              speed >= AUTO_SCROLL_MIN_SPEED &&
+              speed <= AUTO_SCROLL_MAX_SPEED
+            ) {
+              this.plugin.settings.autoScrollSpeed = speed
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('pixels', 'Pixels per second')
+          .addOption('lines', 'Lines per second')
+          .setValue(this.plugin.settings.autoScrollUnit)
+          .onChange(async (value: string) => {
+            this.plugin.settings.autoScrollUnit =
+              value === 'lines' ? 'lines' : 'pixels'
+            await this.plugin.saveSettings()
+          }),
+      )
+
+    containerEl.createEl('h3', { text: 'Synchronized Scrolling' })
 
-    // Button Size
     new Setting(containerEl)
-      .setName('Button Size')
-      .setDesc('Choose the size of the scroll buttons')
+      .setName('Sync By')
+      .setDesc(
+        'How linked panes are lined up. Heading matches sections by their order, so a note and its translation stay together; line suits the source and reading view of the same note. Views without headings or lines fall back to percentage.',
+      )
       .addDropdown((dropdown) =>
         dropdown
-          .addOption('small', 'Small')
-          .addOption('medium', 'Medium')
-          .addOption('large', 'Large')
-          .setValue(this.plugin.settings.buttonSize)
+          .addOption('percent', 'Percentage')
+          .addOption('heading', 'Heading')
+          .addOption('line', 'Line')
+          .setValue(this.plugin.settings.syncScrollMode)
           .onChange(async (value: string) => {
-            if (value === 'small' || value === 'medium' || value === 'large') {
-              this.plugin.settings.buttonSize = value
-              this.updatePreviewButtons()
+            if (
+              value === 'percent' ||
+              value === 'heading' ||
+              value === 'line'
+            ) {
+              this.plugin.settings.syncScrollMode = value
               await this.plugin.saveSettings()
             }
           }),
       )
 
-    // Custom Color
     new Setting(containerEl)
-      .setName('Use Custom Color')
-      .setDesc('Enable custom color for buttons')
+      .setName('Sync Linked Tabs')
+      .setDesc(
+        'Also scroll panes together that Obsidian has linked (via "Link with tab" or "Open linked view"), without linking them here.',
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.useCustomColor)
+          .setValue(this.plugin.settings.syncLinkedTabs)
           .onChange(async (value) => {
-            this.plugin.settings.useCustomColor = value
-            colorSetting.settingEl.toggleClass(
-              'scroll-control-setting-visible',
-              value,
-            )
-            colorSetting.settingEl.toggleClass(
-              'scroll-control-setting-hidden',
-              !value,
-            )
-            this.updatePreviewButtons()
+            this.plugin.settings.syncLinkedTabs = value
             await this.plugin.saveSettings()
           }),
       )
 
-    // Color Picker
-    const colorSetting = new Setting(containerEl)
-      .setName('Button Color')
-      .setDesc('Choose a custom color for the buttons')
-      .addText((text) =>
-        text
-          .setPlaceholder(DEFAULT_SETTINGS.buttonColor)
-          .setValue(this.plugin.settings.buttonColor)
-          .onChange(async (value) => {
-            this.plugin.settings.buttonColor =
-              value || DEFAULT_SETTINGS.buttonColor
-            this.updatePreviewButtons()
-            await this.plugin.saveSettings()
-          }),
-      )
-    // Hide/show based on the toggle state without redrawing the whole tab
-    colorSetting.settingEl.toggleClass(
-      'scroll-control-setting-visible',
-      this.plugin.settings.useCustomColor,
-    )
-    colorSetting.settingEl.toggleClass(
-      'scroll-control-setting-hidden',
-      !this.plugin.settings.useCustomColor,
-    )
+    containerEl.createEl('h3', { text: 'Profiles' })
+    this.displayProfiles(containerEl.createDiv())
+
+    containerEl.createEl('h3', { text: 'Scroll Position Memory' })
 
-    // Animations
     new Setting(containerEl)
-      .setName('Use Animations')
-      .setDesc('Enable button animations')
+      .setName('Remember Scroll Position')
+      .setDesc('Restore where you left off when a note is reopened')
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.useAnimations)
+          .setValue(this.plugin.settings.rememberScrollPosition)
           .onChange(async (value) => {
-            this.plugin.settings.useAnimations = value
-            // Directly toggle visibility of the speed setting
-            animationSpeedSetting.settingEl.toggleClass(
+            this.plugin.settings.rememberScrollPosition = value
+            maxPositionsSetting.settingEl.toggleClass(
               'scroll-control-setting-visible',
               value,
             )
-            animationSpeedSetting.settingEl.toggleClass(
+            maxPositionsSetting.settingEl.toggleClass(
               'scroll-control-setting-hidden',
               !value,
             )
@@ -737,68 +6423,138 @@ class ScrollControlSettingTab extends PluginSettingTab {
           }),
       )
 
-    // Animation Speed
-    const animationSpeedSetting = new Setting(containerEl)
-      .setName('Animation Speed')
-      .setDesc('Adjust the speed of animations (in milliseconds)')
+    const maxPositionsSetting = new Setting(containerEl)
+      .setName('Remembered Notes Limit')
+      .setDesc('Maximum number of notes whose position is remembered')
       .addSlider((slider) =>
         slider
-          .setLimits(100, 1000, 100)
-          .setValue(this.plugin.settings.animationSpeed)
+          .setLimits(50, 2000, 50)
+          .setValue(this.plugin.settings.maxRememberedPositions)
           .setDynamicTooltip()
           .onChange(async (value) => {
-            this.plugin.settings.animationSpeed = value
+            this.plugin.settings.maxRememberedPositions = value
             await this.plugin.saveSettings()
           }),
       )
 
     // Hide/show based on the toggle state without redrawing the whole tab
-    animationSpeedSetting.settingEl.toggleClass(
+    maxPositionsSetting.settingEl.toggleClass(
       'scroll-control-setting-visible',
-      this.plugin.settings.useAnimations,
+      this.plugin.settings.rememberScrollPosition,
     )
-    animationSpeedSetting.settingEl.toggleClass(
+    maxPositionsSetting.settingEl.toggleClass(
       'scroll-control-setting-hidden',
-      !this.plugin.settings.useAnimations,
+      !this.plugin.settings.rememberScrollPosition,
     )
 
-    // Button Visibility Settings
-    containerEl.createEl('h3', { text: 'Button Visibility' })
+    containerEl.createEl('h3', {
+      text: 'Floating Button Position & Spacing',
+    })
+
+    new Setting(containerEl)
+      .setName('Anchor')
+      .setDesc('Where in the pane the buttons are placed.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(ANCHOR_LABELS)
+          .setValue(this.plugin.settings.anchor)
+          .onChange(async (value: string) => {
+            if (value in ANCHOR_LABELS) {
+              this.plugin.settings.anchor = value as ButtonAnchor
+              this.updatePreviewButtons()
+              await this.plugin.saveSettings()
+            }
+          }),
+      )
+
+    new Setting(containerEl)
+      .setName('Orientation')
+      .setDesc('Stack the buttons in a column or lay them out in a row.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('vertical', 'Vertical')
+          .addOption('horizontal', 'Horizontal')
+          .setValue(this.plugin.settings.orientation)
+          .onChange(async (value: string) => {
+            this.plugin.settings.orientation =
+              value === 'horizontal' ? 'horizontal' : 'vertical'
+            this.updatePreviewButtons()
+            await this.plugin.saveSettings()
+          }),
+      )
 
     new Setting(containerEl)
-      .setName('Show Scroll to Top Button')
-      .setDesc('Toggle visibility of the Scroll to Top button')
+      .setName('Pin to Text Column')
+      .setDesc(
+        'Place the buttons in the margin beside the text instead of at the pane edge, when readable line length leaves room. Only affects left and right anchors in Markdown notes.',
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.showScrollTopButton)
+          .setValue(this.plugin.settings.pinToTextColumn)
           .onChange(async (value) => {
-            this.plugin.settings.showScrollTopButton = value
-            this.updatePreviewButtons()
+            this.plugin.settings.pinToTextColumn = value
             await this.plugin.saveSettings()
           }),
       )
 
     new Setting(containerEl)
-      .setName('Show Scroll to Bottom Button')
-      .setDesc('Toggle visibility of the Scroll to Bottom button')
+      .setName('Draggable Buttons')
+      .setDesc(
+        'Drag the buttons anywhere in the pane; they snap to edges they are dropped near. A dragged position replaces the anchor and padding settings until it is reset.',
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.showScrollBottomButton)
+          .setValue(this.plugin.settings.draggableButtons)
           .onChange(async (value) => {
-            this.plugin.settings.showScrollBottomButton = value
-            this.updatePreviewButtons()
+            this.plugin.settings.draggableButtons = value
+            dragPositionSetting.settingEl.toggleClass(
+              'scroll-control-setting-visible',
+              value,
+            )
+            dragPositionSetting.settingEl.toggleClass(
+              'scroll-control-setting-hidden',
+              !value,
+            )
             await this.plugin.saveSettings()
           }),
       )
 
-    containerEl.createEl('h3', {
-      text: 'Floating Button Position & Spacing',
-    })
+    const dragPositionSetting = new Setting(containerEl)
+      .setName('Remember Position per Note')
+      .setDesc(
+        'Keep a separate dragged position for each note instead of one for all notes.',
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.rememberDragPositionPerNote)
+          .onChange(async (value) => {
+            this.plugin.settings.rememberDragPositionPerNote = value
+            await this.plugin.saveSettings()
+          }),
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('rotate-ccw')
+          .setTooltip('Reset all dragged positions')
+          .onClick(async () => {
+            await this.plugin.resetAllButtonPositions()
+            new Notice('Button positions reset')
+          }),
+      )
+
+    dragPositionSetting.settingEl.toggleClass(
+      'scroll-control-setting-visible',
+      this.plugin.settings.draggableButtons,
+    )
+    dragPositionSetting.settingEl.toggleClass(
+      'scroll-control-setting-hidden',
+      !this.plugin.settings.draggableButtons,
+    )
 
     new Setting(containerEl)
-      .setName('Invert Vertical Order')
+      .setName('Invert Order')
       .setDesc(
-        'If enabled, the Scroll to Bottom button will be above the Scroll to Top button.',
+        'If enabled, the buttons are displayed in the reverse of the order listed above.',
       )
       .addToggle((toggle) =>
         toggle
@@ -811,8 +6567,8 @@ class ScrollControlSettingTab extends PluginSettingTab {
       )
 
     new Setting(containerEl)
-      .setName('Vertical Button Spacing')
-      .setDesc('Vertical distance between the buttons (in pixels).')
+      .setName('Button Spacing')
+      .setDesc('Distance between the buttons (in pixels).')
       .addSlider((slider) =>
         slider
           .setLimits(0, 32, 2) // Range 0-32px, step 2px
@@ -827,7 +6583,9 @@ class ScrollControlSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Horizontal Padding')
-      .setDesc('Distance from the right edge of the pane (in pixels)')
+      .setDesc(
+        'Distance from the left or right edge of the pane, or of the text column when pinned (in pixels)',
+      )
       .addSlider((slider) =>
         slider
           .setLimits(0, 100, 4)
@@ -842,10 +6600,10 @@ class ScrollControlSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Vertical Padding')
-      .setDesc('Distance from the bottom edge of the window (in pixels)')
+      .setDesc('Distance from the top or bottom edge of the pane (in pixels)')
       .addSlider((slider) =>
         slider
-          .setLimits(20, 100, 4)
+          .setLimits(...VERTICAL_PADDING_RANGE, 4)
           .setValue(this.plugin.settings.verticalPadding)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -855,10 +6613,405 @@ class ScrollControlSettingTab extends PluginSettingTab {
           }),
       )
 
+    containerEl.createEl('h3', { text: 'Presets & Sharing' })
+
+    SETTINGS_PRESETS.forEach((preset) => {
+      new Setting(containerEl)
+        .setName(preset.name)
+        .setDesc(preset.description)
+        .addButton((button) =>
+          button.setButtonText('Apply').onClick(async () => {
+            await this.plugin.applyPreset(preset)
+            new Notice(`Applied the ${preset.name} preset`)
+            this.display()
+          }),
+        )
+    })
+
+    new Setting(containerEl)
+      .setName('Export Settings')
+      .setDesc(
+        'Copy your settings as JSON to paste into another vault, or save them to a file in this vault. Remembered positions and marks are not included.',
+      )
+      .addButton((button) =>
+        button.setButtonText('Copy').onClick(async () => {
+          await navigator.clipboard.writeText(this.plugin.exportSettings())
+          new Notice('Settings copied to the clipboard')
+        }),
+      )
+      .addButton((button) =>
+        button.setButtonText('Save File').onClick(async () => {
+          const { vault } = this.app
+          const existing = vault.getAbstractFileByPath(SETTINGS_EXPORT_PATH)
+          if (existing instanceof TFile) {
+            await vault.modify(existing, this.plugin.exportSettings())
+          } else {
+            await vault.create(
+              SETTINGS_EXPORT_PATH,
+              this.plugin.exportSettings(),
+            )
+          }
+          new Notice(`Settings saved to ${SETTINGS_EXPORT_PATH}`)
+        }),
+      )
+
+    new Setting(containerEl)
+      .setName('Import Settings')
+      .setDesc(
+        'Replace your settings with exported ones. Settings missing from the import are reset to their defaults.',
+      )
+      .addButton((button) =>
+        button.setButtonText('Import…').onClick(() => {
+          new ImportSettingsModal(this.app, async (data) => {
+            const problems = await this.plugin.importSettings(data)
+            new Notice(
+              problems.length > 0
+                ? `Imported settings, skipping:\n${problems.join('\n')}`
+                : 'Settings imported',
+              problems.length > 0 ? 0 : undefined,
+            )
+            this.display()
+          }).open()
+        }),
+      )
+
     // Initial render of the preview
     this.updatePreviewButtons()
   }
 
+  /**
+   * Renders the editable list of floating buttons. Buttons can be toggled,
+   * edited, removed, added, and reordered by dragging their handle.
+   * Re-renders itself when the list changes.
+   * @param containerEl The element to render the buttons into.
+   */
+  private displayButtons(containerEl: HTMLElement): void {
+    containerEl.empty()
+    const { buttons } = this.plugin.settings
+
+    const saveAndRefresh = async () => {
+      this.updatePreviewButtons()
+      await this.plugin.saveSettings()
+    }
+
+    buttons.forEach((config, index) => {
+      const buttonEl = containerEl.createDiv('scroll-control-button-config')
+
+      const header = new Setting(buttonEl)
+        .setName(config.tooltip || 'Untitled button')
+        .setHeading()
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip('Show this button')
+            .setValue(config.enabled)
+            .onChange(async (value) => {
+              config.enabled = value
+              await saveAndRefresh()
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove button')
+            .onClick(async () => {
+              buttons.splice(index, 1)
+              await saveAndRefresh()
+              this.displayButtons(containerEl)
+            }),
+        )
+
+      // Only start dragging from the handle so text inputs stay usable
+      const handle = header.settingEl.createDiv('scroll-control-drag-handle')
+      header.settingEl.prepend(handle)
+      setIcon(handle, 'grip-vertical')
+      handle.setAttribute('aria-label', 'Drag to reorder')
+      handle.addEventListener('mousedown', () => {
+        buttonEl.draggable = true
+      })
+      buttonEl.addEventListener('dragstart', (event) => {
+        event.dataTransfer?.setData('text/plain', String(index))
+        buttonEl.addClass('is-dragging')
+      })
+      buttonEl.addEventListener('dragend', () => {
+        buttonEl.draggable = false
+        buttonEl.removeClass('is-dragging')
+      })
+      buttonEl.addEventListener('dragover', (event) => {
+        event.preventDefault()
+      })
+      buttonEl.addEventListener('drop', (event) => {
+        event.preventDefault()
+        const from = Number(event.dataTransfer?.getData('text/plain'))
+        if (!Number.isInteger(from) || from === index) return
+        const [moved] = buttons.splice(from, 1)
+        if (!moved) return
+        buttons.splice(index, 0, moved)
+        void saveAndRefresh().then(() => this.displayButtons(containerEl))
+      })
+
+      new Setting(buttonEl)
+        .setName('Icon')
+        .setDesc('A Lucide icon name (see lucide.dev) or custom SVG markup')
+        .addText((text) =>
+          text
+            .setPlaceholder('chevron-up')
+            .setValue(config.icon)
+            .onChange(async (value) => {
+              config.icon = value.trim()
+              await saveAndRefresh()
+            }),
+        )
+
+      new Setting(buttonEl).setName('Tooltip').addText((text) =>
+        text.setValue(config.tooltip).onChange(async (value) => {
+          config.tooltip = value
+          await saveAndRefresh()
+        }),
+      )
+
+      const actionKind = getActionKind(config.action)
+      const actionSetting = new Setting(buttonEl)
+        .setName('Action')
+        .addDropdown((dropdown) => {
+          for (const [kind, { label }] of Object.entries(BUTTON_ACTION_KINDS)) {
+            dropdown.addOption(kind, label)
+          }
+          dropdown.setValue(actionKind).onChange(async (value: string) => {
+            if (isButtonActionKind(value)) {
+              config.action = createButtonAction(value, '')
+              await saveAndRefresh()
+              this.displayButtons(containerEl)
+            }
+          })
+        })
+
+      new Setting(buttonEl)
+        .setName('Long-Press Action')
+        .setDesc('What holding the button down does')
+        .addDropdown((dropdown) => {
+          dropdown.addOption('', 'Nothing')
+          // Only actions without an argument, to keep the editor compact
+          for (const [kind, { label, argument }] of Object.entries(
+            BUTTON_ACTION_KINDS,
+          )) {
+            if (argument === null) {
+              dropdown.addOption(kind, label)
+            }
+          }
+          dropdown
+            .setValue(
+              config.longPressAction
+                ? getActionKind(config.longPressAction)
+                : '',
+            )
+            .onChange(async (value: string) => {
+              if (isButtonActionKind(value)) {
+                config.longPressAction = createButtonAction(value, '')
+              } else {
+                delete config.longPressAction
+              }
+              await saveAndRefresh()
+            })
+        })
+
+      // Some actions take an argument (percentage, command ID, URI)
+      const { argument } = BUTTON_ACTION_KINDS[actionKind]
+      if (argument) {
+        actionSetting.addText((text) =>
+          text
+            .setPlaceholder(argument)
+            .setValue(getActionArgument(config.action))
+            .onChange(async (value) => {
+              config.action = createButtonAction(actionKind, value.trim())
+              await saveAndRefresh()
+            }),
+        )
+      }
+    })
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button.setButtonText('Add Button').onClick(async () => {
+          buttons.push({
+            id: `custom-${Date.now().toString(36)}`,
+            enabled: true,
+            icon: DEFAULT_CUSTOM_ICON,
+            tooltip: '',
+            action: { type: 'command', commandId: '' },
+          })
+          await saveAndRefresh()
+          this.displayButtons(containerEl)
+        }),
+      )
+      .addButton((button) =>
+        button.setButtonText('Restore Defaults').onClick(async () => {
+          this.plugin.settings.buttons = structuredClone(DEFAULT_BUTTONS)
+          await saveAndRefresh()
+          this.displayButtons(containerEl)
+        }),
+      )
+  }
+
+  /**
+   * Renders the list of settings profiles with controls to edit, add and
+   * remove them. Re-renders itself when the list changes.
+   * @param containerEl The element to render the profiles into.
+   */
+  private displayProfiles(containerEl: HTMLElement): void {
+    containerEl.empty()
+    const { profiles } = this.plugin.settings
+
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text:
+        'Override settings for notes in a folder, with a tag, or with a ' +
+        `"${FRONTMATTER_KEY}: <value>" frontmatter entry. Matching profiles ` +
+        `are applied from top to bottom. "${FRONTMATTER_KEY}: hidden" always hides the buttons.`,
+    })
+
+    profiles.forEach((profile, index) => {
+      const profileEl = containerEl.createDiv('scroll-control-profile')
+
+      new Setting(profileEl)
+        .setName(profile.name || `Profile ${index + 1}`)
+        .setHeading()
+        .addText((text) =>
+          text
+            .setPlaceholder('Profile name')
+            .setValue(profile.name)
+            .onChange(async (value) => {
+              profile.name = value
+              await this.plugin.saveSettings()
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Delete profile')
+            .onClick(async () => {
+              profiles.splice(index, 1)
+              await this.plugin.saveSettings()
+              this.displayProfiles(containerEl)
+            }),
+        )
+
+      new Setting(profileEl)
+        .setName('Match')
+        .setDesc(
+          'Folder path, tag, or frontmatter value this profile applies to',
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('folder', 'Folder')
+            .addOption('tag', 'Tag')
+            .addOption('frontmatter', 'Frontmatter')
+            .setValue(profile.matchType)
+            .onChange(async (value: string) => {
+              if (
+                value === 'folder' ||
+                value === 'tag' ||
+                value === 'frontmatter'
+              ) {
+                profile.matchType = value
+                await this.plugin.saveSettings()
+              }
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Journal/, #log, presentation')
+            .setValue(profile.match)
+            .onChange(async (value) => {
+              profile.match = value.trim()
+              await this.plugin.saveSettings()
+            }),
+        )
+
+      new Setting(profileEl)
+        .setName('Hide Buttons')
+        .setDesc('Hide the floating buttons in matching notes')
+        .addToggle((toggle) =>
+          toggle
+            .setValue(profile.overrides.hideButtons ?? false)
+            .onChange(async (value) => {
+              profile.overrides.hideButtons = value
+              await this.plugin.saveSettings()
+            }),
+        )
+
+      new Setting(profileEl).setName('Button Size').addDropdown((dropdown) =>
+        dropdown
+          .addOption('', 'Inherit')
+          .addOption('small', 'Small')
+          .addOption('medium', 'Medium')
+          .addOption('large', 'Large')
+          .setValue(profile.overrides.buttonSize ?? '')
+          .onChange(async (value: string) => {
+            if (value === 'small' || value === 'medium' || value === 'large') {
+              profile.overrides.buttonSize = value
+            } else {
+              delete profile.overrides.buttonSize
+            }
+            await this.plugin.saveSettings()
+          }),
+      )
+
+      new Setting(profileEl).setName('Button Order').addDropdown((dropdown) =>
+        dropdown
+          .addOption('', 'Inherit')
+          .addOption('normal', 'Normal')
+          .addOption('inverted', 'Inverted')
+          .setValue(
+            profile.overrides.invertButtonOrder === undefined
+              ? ''
+              : profile.overrides.invertButtonOrder
+                ? 'inverted'
+                : 'normal',
+          )
+          .onChange(async (value: string) => {
+            if (value === '') {
+              delete profile.overrides.invertButtonOrder
+            } else {
+              profile.overrides.invertButtonOrder = value === 'inverted'
+            }
+            await this.plugin.saveSettings()
+          }),
+      )
+
+      new Setting(profileEl)
+        .setName('Scroll Progress Indicator')
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption('', 'Inherit')
+            .addOption('none', 'None')
+            .addOption('ring', 'Ring')
+            .addOption('bar', 'Bar')
+            .setValue(profile.overrides.progressIndicator ?? '')
+            .onChange(async (value: string) => {
+              if (value === 'none' || value === 'ring' || value === 'bar') {
+                profile.overrides.progressIndicator = value
+              } else {
+                delete profile.overrides.progressIndicator
+              }
+              await this.plugin.saveSettings()
+            }),
+        )
+    })
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('Add Profile').onClick(async () => {
+        profiles.push({
+          name: '',
+          matchType: 'folder',
+          match: '',
+          overrides: {},
+        })
+        await this.plugin.saveSettings()
+        this.displayProfiles(containerEl)
+      }),
+    )
+  }
+
   /**
    * Renders the preview buttons in the settings tab based on current settings.
    */
@@ -871,43 +7024,20 @@ class ScrollControlSettingTab extends PluginSettingTab {
     const settings = this.plugin.settings
 
     // Determine button background, contrasting preview background, and icon color
-    let buttonBackgroundColor: string
-    let finalIconColor: string
+    const colors = this.plugin.getButtonColors(settings)
+    const buttonBackgroundColor =
+      colors.background ?? 'var(--background-secondary)'
+    const finalIconColor = colors.icon ?? 'var(--text-normal)'
     let previewBackgroundColor: string
-    let previewTextColor = ''
-
-    if (settings.useCustomColor) {
-      try {
-        // Validate custom color first
-        if (
-          !settings.buttonColor ||
-          !/^#[0-9A-Fa-f]{3,6}$/.test(settings.buttonColor)
-        ) {
-          throw new Error('Invalid background color format')
-        }
-
-        buttonBackgroundColor = settings.buttonColor
-        finalIconColor = this.plugin.getContrastColor(buttonBackgroundColor)
-
-        // Preview background should contrast with the BUTTON background
-        const contrastToButtonBg = this.plugin.getContrastColor(
-          buttonBackgroundColor,
-        )
+    let previewTextColor: string
 
-        previewBackgroundColor = contrastToButtonBg
-        // Text color should contrast with the PREVIEW background
-        previewTextColor = this.plugin.getContrastColor(previewBackgroundColor)
-      } catch {
-        // Fallback to theme defaults if custom color is invalid
-        buttonBackgroundColor = 'var(--background-secondary)' // Default button BG (secondary)
-        finalIconColor = 'var(--text-normal)' // Default icon color
-        previewBackgroundColor = 'var(--text-normal)' // Preview BG = default icon color
-        previewTextColor = 'var(--background-secondary)' // Preview text = default button BG
-      }
+    if (colors.background) {
+      // Preview background should contrast with the BUTTON background
+      previewBackgroundColor = this.plugin.getContrastColor(colors.background)
+      // Text color should contrast with the PREVIEW background
+      previewTextColor = this.plugin.getContrastColor(previewBackgroundColor)
     } else {
       // Use theme defaults when custom color is off
-      buttonBackgroundColor = 'var(--background-secondary)' // Button uses secondary BG
-      finalIconColor = 'var(--text-normal)' // Icon uses theme text color
       previewBackgroundColor = 'var(--text-normal)' // Preview BG = theme text color
       previewTextColor = 'var(--background-secondary)' // Preview text contrasts with preview BG
     }
@@ -921,20 +7051,9 @@ class ScrollControlSettingTab extends PluginSettingTab {
       previewTextColor,
     )
 
-    const buttons = []
-    if (settings.showScrollTopButton) {
-      buttons.push({
-        icon: ICONS.scrollTop,
-        tooltip: 'Scroll to Top (Preview)',
-        order: settings.invertButtonOrder ? 1 : 0,
-      })
-    }
-    if (settings.showScrollBottomButton) {
-      buttons.push({
-        icon: ICONS.scrollBottom,
-        tooltip: 'Scroll to Bottom (Preview)',
-        order: settings.invertButtonOrder ? 0 : 1,
-      })
+    const buttons = settings.buttons.filter((config) => config.enabled)
+    if (settings.invertButtonOrder) {
+      buttons.reverse()
     }
 
     if (buttons.length === 0) {
@@ -942,10 +7061,26 @@ class ScrollControlSettingTab extends PluginSettingTab {
       return
     }
 
-    buttons.sort((a, b) => a.order - b.order)
+    // Place the buttons where they will appear in the pane
+    const [vertical = 'bottom'] = settings.anchor.split('-')
+    const side = getAnchorSide(settings.anchor)
+    const flexPosition = (start: boolean, end: boolean) =>
+      start ? 'flex-start' : end ? 'flex-end' : 'center'
+    this.previewContainer.style.setProperty(
+      '--scroll-control-preview-justify',
+      flexPosition(vertical === 'top', vertical === 'bottom'),
+    )
+    this.previewContainer.style.setProperty(
+      '--scroll-control-preview-align',
+      flexPosition(side === 'left', side === 'right'),
+    )
 
     const previewButtonWrapper = this.previewContainer.createDiv()
     previewButtonWrapper.addClass('scroll-control-preview-wrapper')
+    previewButtonWrapper.toggleClass(
+      'scroll-control-horizontal',
+      settings.orientation === 'horizontal',
+    )
     previewButtonWrapper.style.setProperty(
       '--scroll-control-preview-gap',
       `${settings.buttonSpacing}px`,
@@ -957,49 +7092,31 @@ class ScrollControlSettingTab extends PluginSettingTab {
       button.addClass(`scroll-control-button-${settings.buttonSize}`)
       button.addClass('scroll-control-preview-button')
 
-      let iconColor: string
-
-      if (settings.useCustomColor) {
-        try {
-          // Validation was already done above
-
-          // Icon color contrasts with the button background color
-          iconColor = finalIconColor
-          button.style.setProperty(
-            '--scroll-control-preview-btn-bg',
-            buttonBackgroundColor,
-          )
-          button.style.setProperty(
-            '--scroll-control-preview-btn-color',
-            iconColor,
-          )
-          button.addClass('scroll-control-button-custom')
-        } catch {
-          // Fallback if validation fails here (should be caught above)
-          button.addClass('scroll-control-button-default')
-          iconColor = 'var(--text-normal)'
-        }
-      } else {
-        // Use theme defaults determined above for button background and icon color
-        button.style.setProperty(
-          '--scroll-control-preview-btn-bg',
-          buttonBackgroundColor,
-        )
-        button.style.setProperty(
-          '--scroll-control-preview-btn-color',
-          finalIconColor,
-        )
-        button.addClass('scroll-control-button-default')
-        iconColor = finalIconColor
-      }
-
-      // Create SVG element using DOM API instead of innerHTML
-      const svgElement = this.plugin.createSVGFromString(
-        btnData.icon,
-        iconColor,
+      button.style.setProperty(
+        '--scroll-control-preview-btn-bg',
+        buttonBackgroundColor,
+      )
+      button.style.setProperty(
+        '--scroll-control-preview-btn-color',
+        finalIconColor,
       )
-      button.appendChild(svgElement)
-      button.setAttribute('aria-label', btnData.tooltip)
+      button.addClass(
+        colors.background || colors.icon
+          ? 'scroll-control-button-custom'
+          : 'scroll-control-button-default',
+      )
+      renderButtonIcon(button, btnData.icon, finalIconColor, this.plugin)
+      button.setAttribute('aria-label', `${btnData.tooltip} (Preview)`)
     })
+
+    if (settings.progressIndicator !== 'none') {
+      const indicator = this.plugin.createProgressIndicator(
+        previewButtonWrapper,
+        settings.progressIndicator,
+        settings.buttonSize,
+      )
+      // Show a sample value so the style is visible
+      this.plugin.setProgress(indicator, 0.6)
+    }
   }
 }